@@ -1,8 +1,6 @@
-import { TwitterApi } from 'twitter-api-v2';
-import { promises as fs } from 'fs';
-import { existsSync } from 'fs';
-import path from 'path';
+import { TwitterApi, ITwitterApiClientPlugin, TwitterApiPluginResponseOverride } from 'twitter-api-v2';
 import dotenv from 'dotenv';
+import { DEFAULT_ACCOUNT, TokenStore, getTokenStore } from './token-store.js';
 
 dotenv.config();
 
@@ -10,6 +8,7 @@ export interface OAuth2Tokens {
   accessToken: string;
   refreshToken?: string;
   expiresAt?: number;
+  scopes?: string[];
 }
 
 export interface OAuth2Config {
@@ -18,29 +17,142 @@ export interface OAuth2Config {
   redirectUri: string;
 }
 
+// Always requested: every tool reads tweets or users, and tokens must be refreshable
+const BASE_SCOPES = ['tweet.read', 'users.read', 'offline.access'];
+
+const READ_ONLY_SCOPES = [...BASE_SCOPES, 'follows.read', 'mute.read', 'block.read', 'bookmark.read', 'like.read', 'list.read'];
+
+const STANDARD_SCOPES = [...READ_ONLY_SCOPES, 'tweet.write', 'media.write', 'bookmark.write', 'like.write'];
+
+export const SCOPE_PRESETS = {
+  'read-only': READ_ONLY_SCOPES,
+  standard: STANDARD_SCOPES,
+  full: [...STANDARD_SCOPES, 'list.write', 'follows.write', 'mute.write', 'block.write', 'dm.read', 'dm.write']
+};
+
+export type ScopePreset = keyof typeof SCOPE_PRESETS;
+
+export const DEFAULT_SCOPE_PRESET: ScopePreset = 'full';
+
+// Every scope the tools can make use of
+const KNOWN_SCOPES = SCOPE_PRESETS.full;
+
+/**
+ * Turns a preset name or a comma or space separated scope list into the scopes
+ * to request. The base scopes are always included.
+ */
+export function resolveScopes(spec: string = DEFAULT_SCOPE_PRESET): string[] {
+  if (Object.keys(SCOPE_PRESETS).includes(spec)) {
+    return SCOPE_PRESETS[spec as ScopePreset];
+  }
+  
+  const scopes = spec.split(/[\s,]+/).filter(Boolean);
+  if (!scopes.length) {
+    throw new Error('No scopes given');
+  }
+  
+  for (const scope of scopes) {
+    if (!KNOWN_SCOPES.includes(scope)) {
+      throw new Error(`Unknown scope "${scope}". Use ${Object.keys(SCOPE_PRESETS).join(', ')} or a list of: ${KNOWN_SCOPES.join(', ')}`);
+    }
+  }
+  
+  return [...new Set([...BASE_SCOPES, ...scopes])];
+}
+
+/**
+ * Scopes from `requiredScopes` that were not granted. Tokens saved before granted
+ * scopes were recorded have no scope list, and are assumed to have everything.
+ */
+export function getMissingScopes(grantedScopes: string[] | undefined, requiredScopes: string[] = []): string[] {
+  if (!grantedScopes) {
+    return [];
+  }
+  return requiredScopes.filter(scope => !grantedScopes.includes(scope));
+}
+
+// Tokens are refreshed this long before they expire
+const EXPIRY_MARGIN_MS = 5 * 60 * 1000;
+
+// One refresh per account at a time within this process
+const refreshesInFlight = new Map<string, Promise<OAuth2Tokens>>();
+
+function isExpiring(tokens: OAuth2Tokens): boolean {
+  return !!tokens.expiresAt && tokens.expiresAt < Date.now() + EXPIRY_MARGIN_MS;
+}
+
+const ACCOUNT_NAME_PATTERN = /^[a-z0-9_-]{1,32}$/i;
+
+export function validateAccountName(account: string): string {
+  if (!ACCOUNT_NAME_PATTERN.test(account)) {
+    throw new Error(`Invalid account name "${account}". Use up to 32 letters, digits, "-" or "_".`);
+  }
+  return account.toLowerCase();
+}
+
+export function getDefaultAccount(): string {
+  return validateAccountName(process.env.X_DEFAULT_ACCOUNT || DEFAULT_ACCOUNT);
+}
+
+/**
+ * Extracts the authorization code from the URL the user was redirected to after
+ * authorizing, checking that its state belongs to the current authorization.
+ * A bare code is accepted as is.
+ */
+export function parseAuthorizationResponse(input: string, expectedState: string): string {
+  input = input.trim();
+  if (!input) {
+    throw new Error('No redirect URL or code was given');
+  }
+  
+  if (!input.includes('code=') && !input.includes('error=')) {
+    if (/\s/.test(input)) {
+      throw new Error('That does not look like a redirect URL or an authorization code');
+    }
+    return input;
+  }
+  
+  const query = input.includes('?') ? input.slice(input.indexOf('?') + 1) : input;
+  const params = new URLSearchParams(query.split('#')[0]);
+  
+  const error = params.get('error');
+  if (error) {
+    throw new Error(`Authorization failed: ${error}`);
+  }
+  
+  if (params.get('state') !== expectedState) {
+    throw new Error('State mismatch: the redirect URL does not belong to this authorization. Please start again.');
+  }
+  
+  const code = params.get('code');
+  if (!code) {
+    throw new Error('The redirect URL does not contain an authorization code');
+  }
+  return code;
+}
+
 export class OAuth2AuthManager {
   private config: OAuth2Config;
-  private tokensPath: string;
+  private tokenStore: TokenStore;
+  readonly account: string;
   
-  constructor() {
+  constructor(account: string = getDefaultAccount(), tokenStore: TokenStore = getTokenStore()) {
+    this.account = validateAccountName(account);
     this.config = this.getConfig();
-    this.tokensPath = this.getTokensPath();
+    this.tokenStore = tokenStore;
   }
   
-  private getTokensPath(): string {
-    // Check for custom tokens path from environment variable
-    const customPath = process.env.X_TOKENS_PATH;
-    if (customPath) {
-      return customPath;
-    }
-    
-    // Get the project directory from the current module's location
-    const currentDir = path.dirname(new URL(import.meta.url).pathname);
-    const projectDir = path.resolve(currentDir, '..');
-    
-    return path.join(projectDir, '.tokens.json');
+  /**
+   * Names of all accounts with stored tokens, in alphabetical order.
+   */
+  static async listAccounts(tokenStore: TokenStore = getTokenStore()): Promise<string[]> {
+    return tokenStore.listAccounts();
   }
-
+  
+  get redirectUri(): string {
+    return this.config.redirectUri;
+  }
+  
   private getConfig(): OAuth2Config {
     const clientId = process.env.X_CLIENT_ID;
     const clientSecret = process.env.X_CLIENT_SECRET;
@@ -50,27 +162,21 @@ export class OAuth2AuthManager {
       throw new Error('OAuth 2.0 credentials not found. Please set X_CLIENT_ID and X_CLIENT_SECRET in environment variables.');
     }
     
+    try {
+      new URL(redirectUri);
+    } catch {
+      throw new Error(`Invalid X_REDIRECT_URI: ${redirectUri}`);
+    }
+    
     return { clientId, clientSecret, redirectUri };
   }
   
-  generateAuthLink(): { url: string; codeVerifier: string; state: string } {
+  generateAuthLink(scopes: string[] = resolveScopes()): { url: string; codeVerifier: string; state: string } {
     const client = new TwitterApi({
       clientId: this.config.clientId,
       clientSecret: this.config.clientSecret,
     });
     
-    const scopes = [
-      'tweet.read',
-      'users.read', 
-      'bookmark.read',
-      'bookmark.write',
-      'like.read',
-      'like.write',
-      'list.read',
-      'list.write',
-      'offline.access'
-    ];
-    
     return client.generateOAuth2AuthLink(this.config.redirectUri, { scope: scopes });
   }
   
@@ -81,7 +187,7 @@ export class OAuth2AuthManager {
     });
     
     try {
-      const { accessToken, refreshToken } = await client.loginWithOAuth2({
+      const { accessToken, refreshToken, expiresIn, scope } = await client.loginWithOAuth2({
         code,
         codeVerifier,
         redirectUri: this.config.redirectUri,
@@ -90,7 +196,8 @@ export class OAuth2AuthManager {
       const tokens: OAuth2Tokens = {
         accessToken,
         refreshToken,
-        expiresAt: Date.now() + (7200 * 1000) // Assuming 2 hour expiry
+        expiresAt: Date.now() + expiresIn * 1000,
+        scopes: scope
       };
       
       await this.saveTokens(tokens);
@@ -100,28 +207,62 @@ export class OAuth2AuthManager {
     }
   }
   
-  async refreshTokens(refreshToken: string): Promise<OAuth2Tokens> {
+  private async requestTokenRefresh(refreshToken: string): Promise<OAuth2Tokens> {
     const client = new TwitterApi({
       clientId: this.config.clientId,
       clientSecret: this.config.clientSecret,
     });
     
     try {
-      const { accessToken, refreshToken: newRefreshToken } = await client.refreshOAuth2Token(refreshToken);
+      const { accessToken, refreshToken: newRefreshToken, expiresIn, scope } = await client.refreshOAuth2Token(refreshToken);
       
-      const tokens: OAuth2Tokens = {
+      return {
         accessToken,
         refreshToken: newRefreshToken || refreshToken,
-        expiresAt: Date.now() + (7200 * 1000)
+        expiresAt: Date.now() + expiresIn * 1000,
+        scopes: scope
       };
-      
-      await this.saveTokens(tokens);
-      return tokens;
     } catch (error) {
       throw new Error(`Failed to refresh tokens: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
   
+  /**
+   * Replaces `staleAccessToken` with a fresh one. X refresh tokens are single-use, so parallel
+   * callers in this process share one refresh, and other processes are kept out by the store
+   * lock. If another process already refreshed while we waited, its tokens are used as is.
+   */
+  refreshTokens(staleAccessToken: string): Promise<OAuth2Tokens> {
+    let refresh = refreshesInFlight.get(this.account);
+    
+    if (!refresh) {
+      refresh = this.tokenStore.withLock(this.account, async () => {
+        const current = await this.tokenStore.load(this.account);
+        if (!current) {
+          throw new Error('Failed to refresh tokens: no stored tokens');
+        }
+        
+        if (current.accessToken !== staleAccessToken && !isExpiring(current)) {
+          return current;
+        }
+        
+        if (!current.refreshToken) {
+          throw new Error('Failed to refresh tokens: no refresh token available');
+        }
+        
+        const tokens = await this.requestTokenRefresh(current.refreshToken);
+        await this.writeTokens(tokens);
+        return tokens;
+      }).finally(() => {
+        refreshesInFlight.delete(this.account);
+      });
+      
+      refreshesInFlight.set(this.account, refresh);
+    }
+    
+    return refresh;
+  }
+  
   async getValidTokens(): Promise<OAuth2Tokens | null> {
     try {
       const tokens = await this.loadTokens();
@@ -131,10 +272,10 @@ export class OAuth2AuthManager {
       }
       
       // Check if token needs refresh
-      if (tokens.expiresAt && tokens.expiresAt < Date.now() + (5 * 60 * 1000)) { // 5 min buffer
+      if (isExpiring(tokens)) {
         if (tokens.refreshToken) {
           console.error('Access token expiring soon, refreshing...');
-          return await this.refreshTokens(tokens.refreshToken);
+          return await this.refreshTokens(tokens.accessToken);
         } else {
           console.error('Access token expired and no refresh token available');
           return null;
@@ -149,8 +290,12 @@ export class OAuth2AuthManager {
   }
   
   async saveTokens(tokens: OAuth2Tokens): Promise<void> {
+    await this.tokenStore.withLock(this.account, () => this.writeTokens(tokens));
+  }
+  
+  private async writeTokens(tokens: OAuth2Tokens): Promise<void> {
     try {
-      await fs.writeFile(this.tokensPath, JSON.stringify(tokens, null, 2));
+      await this.tokenStore.save(this.account, tokens);
       console.error('Tokens saved successfully');
     } catch (error) {
       throw new Error(`Failed to save tokens: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -159,12 +304,7 @@ export class OAuth2AuthManager {
   
   async loadTokens(): Promise<OAuth2Tokens | null> {
     try {
-      if (!existsSync(this.tokensPath)) {
-        return null;
-      }
-      
-      const tokensData = await fs.readFile(this.tokensPath, 'utf-8');
-      return JSON.parse(tokensData);
+      return await this.tokenStore.load(this.account);
     } catch (error) {
       console.error('Failed to load tokens:', error);
       return null;
@@ -173,10 +313,8 @@ export class OAuth2AuthManager {
   
   async clearTokens(): Promise<void> {
     try {
-      if (existsSync(this.tokensPath)) {
-        await fs.unlink(this.tokensPath);
-        console.error('Tokens cleared');
-      }
+      await this.tokenStore.clear(this.account);
+      console.error('Tokens cleared');
     } catch (error) {
       console.error('Failed to clear tokens:', error);
     }
@@ -187,13 +325,38 @@ export class OAuth2AuthManager {
     return tokens !== null;
   }
   
-  async getAuthenticatedClient(): Promise<TwitterApi | null> {
+  async getAuthenticatedClient(plugins: ITwitterApiClientPlugin[] = []): Promise<TwitterApi | null> {
     const tokens = await this.getValidTokens();
     
     if (!tokens) {
       return null;
     }
     
-    return new TwitterApi(tokens.accessToken);
+    return new TwitterApi(tokens.accessToken, { plugins: [...plugins, this.createTokenRefreshPlugin()] });
+  }
+  
+  /**
+   * Retries a request once with refreshed tokens when X rejects an access token
+   * that has not expired yet (revoked, or refreshed by another process).
+   */
+  private createTokenRefreshPlugin(): ITwitterApiClientPlugin {
+    const retried = new WeakSet<object>();
+    
+    return {
+      onResponseError: async (args) => {
+        const rejectedToken = args.client.bearerToken;
+        if (args.error.code !== 401 || !rejectedToken || retried.has(args.params)) {
+          return;
+        }
+        
+        retried.add(args.params);
+        console.error('Access token was rejected, refreshing and retrying...');
+        
+        const tokens = await this.refreshTokens(rejectedToken);
+        args.client.bearerToken = tokens.accessToken;
+        
+        return new TwitterApiPluginResponseOverride(await args.client.send(args.params));
+      }
+    };
   }
 }
\ No newline at end of file
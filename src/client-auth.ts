@@ -0,0 +1,285 @@
+import { promises as fs } from 'fs';
+import { createHash, timingSafeEqual } from 'crypto';
+import { IncomingMessage } from 'http';
+import { z } from 'zod';
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+
+// Inbound authentication of MCP clients in HTTP mode. Clients present either a static
+// API key or an OAuth access token, validated by token introspection (RFC 7662) against
+// the authorization server named in the protected resource metadata (RFC 9728).
+
+const apiKeySchema = z.object({
+  name: z.string().min(1),
+  key: z.string().min(16, 'API keys must be at least 16 characters'),
+  allowedTools: z.array(z.string().min(1)).default(['*'])
+});
+
+const oauthSchema = z.object({
+  issuer: z.string().url(),
+  introspectionEndpoint: z.string().url(),
+  clientId: z.string().min(1),
+  clientSecret: z.string().min(1),
+  resource: z.string().url().optional(),
+  // Accept tokens without an aud claim, for authorization servers that never set one
+  allowMissingAudience: z.boolean().default(false),
+  // How long to wait for the introspection endpoint before rejecting the request with 503
+  introspectionTimeoutSeconds: z.number().positive().default(5),
+  requiredScopes: z.array(z.string().min(1)).default([]),
+  allowedTools: z.array(z.string().min(1)).default(['*'])
+});
+
+const clientAuthConfigSchema = z.object({
+  apiKeys: z.array(apiKeySchema).default([]),
+  oauth: oauthSchema.optional()
+});
+
+export type ClientAuthConfig = z.infer<typeof clientAuthConfigSchema>;
+
+// The RFC 7662 introspection response fields this server relies on
+const introspectionResponseSchema = z.object({
+  active: z.boolean(),
+  scope: z.string().optional(),
+  client_id: z.string().optional(),
+  sub: z.string().optional(),
+  exp: z.number().optional(),
+  aud: z.union([z.string(), z.array(z.string())]).optional()
+});
+
+type IntrospectionResponse = z.infer<typeof introspectionResponseSchema>;
+
+export const PROTECTED_RESOURCE_METADATA_PATH = '/.well-known/oauth-protected-resource';
+
+const INTROSPECTION_CACHE_MS = 60 * 1000;
+
+// 503 means the credentials could not be checked right now, not that they are invalid
+export class ClientAuthError extends Error {
+  constructor(public status: 401 | 403 | 503, public code: 'invalid_token' | 'insufficient_scope' | 'temporarily_unavailable', message: string) {
+    super(message);
+    this.name = 'ClientAuthError';
+  }
+}
+
+export async function loadClientAuthConfig(): Promise<ClientAuthConfig | null> {
+  const configPath = process.env.MCP_AUTH_CONFIG;
+  if (!configPath) {
+    return null;
+  }
+  
+  let raw: string;
+  try {
+    raw = await fs.readFile(configPath, 'utf8');
+  } catch (error) {
+    throw new Error(`Cannot read MCP_AUTH_CONFIG ${configPath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+  
+  const config = clientAuthConfigSchema.parse(JSON.parse(raw));
+  if (!config.apiKeys.length && !config.oauth) {
+    throw new Error(`${configPath} defines neither apiKeys nor oauth`);
+  }
+  
+  const names = new Set<string>();
+  for (const apiKey of config.apiKeys) {
+    if (names.has(apiKey.name)) {
+      throw new Error(`Duplicate API key name "${apiKey.name}" in ${configPath}`);
+    }
+    names.add(apiKey.name);
+  }
+  
+  return config;
+}
+
+function hashSecret(secret: string): Buffer {
+  return createHash('sha256').update(secret).digest();
+}
+
+function getAllowedTools(authInfo: AuthInfo): string[] {
+  const allowedTools = authInfo.extra?.allowedTools;
+  return Array.isArray(allowedTools) ? allowedTools : [];
+}
+
+/**
+ * Whether a client may call a tool. Requests without auth info come from
+ * stdio, where the local user is trusted.
+ */
+export function isToolAllowed(authInfo: AuthInfo | undefined, toolName: string): boolean {
+  if (!authInfo) {
+    return true;
+  }
+  
+  const allowedTools = getAllowedTools(authInfo);
+  return allowedTools.includes('*') || allowedTools.includes(toolName);
+}
+
+export class ClientAuthenticator {
+  private apiKeys: Array<{ name: string; hash: Buffer; allowedTools: string[] }>;
+  private introspectionCache = new Map<string, { authInfo: AuthInfo; cachedUntil: number }>();
+  
+  constructor(private config: ClientAuthConfig, private baseUrl: string) {
+    this.apiKeys = config.apiKeys.map(apiKey => ({
+      name: apiKey.name,
+      hash: hashSecret(apiKey.key),
+      allowedTools: apiKey.allowedTools
+    }));
+  }
+  
+  get resourceMetadataUrl(): string {
+    return `${this.baseUrl}${PROTECTED_RESOURCE_METADATA_PATH}`;
+  }
+  
+  getProtectedResourceMetadata() {
+    const { oauth } = this.config;
+    
+    return {
+      resource: oauth?.resource || `${this.baseUrl}/mcp`,
+      authorization_servers: oauth ? [oauth.issuer] : [],
+      scopes_supported: oauth?.requiredScopes,
+      bearer_methods_supported: ['header']
+    };
+  }
+  
+  /**
+   * Value for the WWW-Authenticate header of a rejected request.
+   */
+  challenge(error: ClientAuthError): string {
+    const description = error.message.replace(/"/g, "'");
+    const scope = this.config.oauth?.requiredScopes.length ? `, scope="${this.config.oauth.requiredScopes.join(' ')}"` : '';
+    return `Bearer error="${error.code}", error_description="${description}"${scope}, resource_metadata="${this.resourceMetadataUrl}"`;
+  }
+  
+  async authenticate(req: IncomingMessage): Promise<AuthInfo> {
+    const token = this.extractToken(req);
+    if (!token) {
+      throw new ClientAuthError(401, 'invalid_token', 'Missing credentials. Send an API key or an OAuth access token as a Bearer token');
+    }
+    
+    const apiKey = this.findApiKey(token);
+    if (apiKey) {
+      return {
+        token,
+        clientId: apiKey.name,
+        scopes: [],
+        extra: { allowedTools: apiKey.allowedTools, authMethod: 'api_key' }
+      };
+    }
+    
+    if (this.config.oauth) {
+      return this.introspect(token);
+    }
+    
+    throw new ClientAuthError(401, 'invalid_token', 'Invalid API key');
+  }
+  
+  /**
+   * Rejects a JSON-RPC request (or batch) that calls a tool the client is not allowed to use.
+   */
+  authorizeRequestBody(authInfo: AuthInfo, body: unknown): void {
+    const messages = Array.isArray(body) ? body : [body];
+    
+    for (const message of messages) {
+      if (message?.method !== 'tools/call') {
+        continue;
+      }
+      
+      const toolName = message.params?.name;
+      if (typeof toolName === 'string' && !isToolAllowed(authInfo, toolName)) {
+        throw new ClientAuthError(403, 'insufficient_scope', `Client "${authInfo.clientId}" is not allowed to call ${toolName}`);
+      }
+    }
+  }
+  
+  private extractToken(req: IncomingMessage): string | undefined {
+    const apiKeyHeader = req.headers['x-api-key'];
+    if (typeof apiKeyHeader === 'string' && apiKeyHeader) {
+      return apiKeyHeader;
+    }
+    
+    const authorization = req.headers.authorization;
+    const match = authorization?.match(/^Bearer\s+(.+)$/i);
+    return match?.[1].trim();
+  }
+  
+  private findApiKey(token: string) {
+    const hash = hashSecret(token);
+    return this.apiKeys.find(apiKey => timingSafeEqual(apiKey.hash, hash));
+  }
+  
+  private async introspect(token: string): Promise<AuthInfo> {
+    const oauth = this.config.oauth!;
+    const cacheKey = hashSecret(token).toString('hex');
+    const cached = this.introspectionCache.get(cacheKey);
+    if (cached && cached.cachedUntil > Date.now()) {
+      return cached.authInfo;
+    }
+    
+    let result: IntrospectionResponse;
+    try {
+      const response = await fetch(oauth.introspectionEndpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+          Accept: 'application/json',
+          Authorization: `Basic ${Buffer.from(`${encodeURIComponent(oauth.clientId)}:${encodeURIComponent(oauth.clientSecret)}`).toString('base64')}`
+        },
+        body: new URLSearchParams({ token, token_type_hint: 'access_token' }),
+        signal: AbortSignal.timeout(oauth.introspectionTimeoutSeconds * 1000)
+      });
+      
+      if (!response.ok) {
+        throw new Error(`introspection endpoint returned ${response.status}`);
+      }
+      result = introspectionResponseSchema.parse(await response.json());
+    } catch (error) {
+      if (error instanceof Error && error.name === 'TimeoutError') {
+        console.error(`Token introspection timed out after ${oauth.introspectionTimeoutSeconds}s`);
+        throw new ClientAuthError(503, 'temporarily_unavailable', 'The authorization server did not respond in time. Try again later');
+      }
+      console.error('Token introspection failed:', error);
+      throw new ClientAuthError(401, 'invalid_token', 'Access token could not be validated');
+    }
+    
+    if (!result.active) {
+      throw new ClientAuthError(401, 'invalid_token', 'Access token is not active');
+    }
+    
+    if (result.exp !== undefined && result.exp * 1000 <= Date.now()) {
+      throw new ClientAuthError(401, 'invalid_token', 'Access token has expired');
+    }
+    
+    // Tokens must be issued for this server (RFC 8707 audience binding)
+    const resource = this.getProtectedResourceMetadata().resource;
+    const audiences = Array.isArray(result.aud) ? result.aud : result.aud ? [result.aud] : [];
+    if (!audiences.length && !oauth.allowMissingAudience) {
+      throw new ClientAuthError(401, 'invalid_token', 'Access token has no audience, so it cannot be checked that it was issued for this server');
+    }
+    if (audiences.length && !audiences.includes(resource)) {
+      throw new ClientAuthError(401, 'invalid_token', 'Access token was not issued for this server');
+    }
+    
+    const scopes = result.scope ? result.scope.split(' ').filter(Boolean) : [];
+    const missingScopes = oauth.requiredScopes.filter(scope => !scopes.includes(scope));
+    if (missingScopes.length) {
+      throw new ClientAuthError(403, 'insufficient_scope', `Access token is missing required scopes: ${missingScopes.join(', ')}`);
+    }
+    
+    const authInfo: AuthInfo = {
+      token,
+      clientId: result.client_id || result.sub || 'oauth-client',
+      scopes,
+      expiresAt: result.exp,
+      resource: new URL(resource),
+      extra: { allowedTools: oauth.allowedTools, authMethod: 'oauth' }
+    };
+    
+    const now = Date.now();
+    for (const [key, entry] of this.introspectionCache) {
+      if (entry.cachedUntil <= now) {
+        this.introspectionCache.delete(key);
+      }
+    }
+    
+    const cachedUntil = Math.min(now + INTROSPECTION_CACHE_MS, authInfo.expiresAt ? authInfo.expiresAt * 1000 : Infinity);
+    this.introspectionCache.set(cacheKey, { authInfo, cachedUntil });
+    
+    return authInfo;
+  }
+}
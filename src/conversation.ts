@@ -0,0 +1,84 @@
+import { TweetV2, UserV2 } from 'twitter-api-v2';
+
+export interface ConversationNode {
+  id: string;
+  text: string;
+  author_id?: string;
+  author_username?: string;
+  created_at?: string;
+  public_metrics?: TweetV2['public_metrics'];
+  parent_missing?: boolean;
+  replies: ConversationNode[];
+}
+
+function toNode(tweet: TweetV2, usersById: Map<string, UserV2>): ConversationNode {
+  return {
+    id: tweet.id,
+    text: tweet.text,
+    author_id: tweet.author_id,
+    author_username: tweet.author_id ? usersById.get(tweet.author_id)?.username : undefined,
+    created_at: tweet.created_at,
+    public_metrics: tweet.public_metrics,
+    replies: []
+  };
+}
+
+function byCreatedAt(a: ConversationNode, b: ConversationNode): number {
+  return (a.created_at || '').localeCompare(b.created_at || '');
+}
+
+/**
+ * Rebuilds the reply tree of a conversation from the `replied_to` references of each tweet.
+ * Replies whose parent was not returned (deleted, protected or outside the search window)
+ * are attached to the root and flagged with `parent_missing`.
+ */
+export function buildConversationTree(root: TweetV2, replies: TweetV2[], users: UserV2[] = []): ConversationNode {
+  const usersById = new Map(users.map(user => [user.id, user]));
+  const rootNode = toNode(root, usersById);
+  const nodes = new Map<string, ConversationNode>([[root.id, rootNode]]);
+  const uniqueReplies = [...new Map(replies.map(tweet => [tweet.id, tweet])).values()]
+    .filter(tweet => tweet.id !== root.id);
+  
+  for (const tweet of uniqueReplies) {
+    nodes.set(tweet.id, toNode(tweet, usersById));
+  }
+  
+  for (const tweet of uniqueReplies) {
+    const node = nodes.get(tweet.id)!;
+    const parentId = tweet.referenced_tweets?.find(ref => ref.type === 'replied_to')?.id;
+    const parent = parentId ? nodes.get(parentId) : undefined;
+    
+    if (parent) {
+      parent.replies.push(node);
+    } else {
+      node.parent_missing = true;
+      rootNode.replies.push(node);
+    }
+  }
+  
+  for (const node of nodes.values()) {
+    node.replies.sort(byCreatedAt);
+  }
+  
+  return rootNode;
+}
+
+export function countConversationReplies(node: ConversationNode): number {
+  return node.replies.reduce((total, reply) => total + 1 + countConversationReplies(reply), 0);
+}
+
+export function formatConversationTree(node: ConversationNode, depth: number = 0): string {
+  const indent = '  '.repeat(depth);
+  const author = node.author_username ? `@${node.author_username}` : node.author_id || 'unknown';
+  const created = node.created_at ? new Date(node.created_at).toLocaleString() : 'N/A';
+  const metrics = node.public_metrics;
+  const text = node.text.replace(/\n/g, `\n${indent}  `);
+  
+  const lines = [
+    `${indent}- **${author}** (ID: ${node.id}, ${created})${node.parent_missing ? ' _(reply to an unavailable tweet)_' : ''}`,
+    `${indent}  ${text}`,
+    `${indent}  ❤️ ${metrics?.like_count || 0} | 🔄 ${metrics?.retweet_count || 0} | 💬 ${metrics?.reply_count || 0}`
+  ];
+  
+  return [lines.join('\n'), ...node.replies.map(reply => formatConversationTree(reply, depth + 1))].join('\n');
+}
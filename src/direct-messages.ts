@@ -0,0 +1,135 @@
+import { ApiV2Includes, TwitterApiv2 } from 'twitter-api-v2';
+import { IncludesResolver, TweetMedia } from './tweet-includes.js';
+
+// twitter-api-v2 does not export its DM types, so they are taken from the client methods
+export type DmEvent = Awaited<ReturnType<TwitterApiv2['listDmEvents']>>['events'][number];
+export type DmEventParams = NonNullable<Parameters<TwitterApiv2['listDmEvents']>[0]>;
+
+// Longest message X accepts in a DM
+export const MAX_DM_LENGTH = 10000;
+
+export interface DmParticipant {
+  id: string;
+  username?: string;
+  name?: string;
+}
+
+export interface DmMessage {
+  id: string;
+  dm_conversation_id?: string;
+  sender: DmParticipant;
+  text: string;
+  created_at?: string;
+  media?: TweetMedia[];
+}
+
+export interface DmConversationSummary {
+  dm_conversation_id: string;
+  participants: DmParticipant[];
+  message_count: number;
+  last_message: DmMessage;
+}
+
+// One-to-one conversation IDs are the two user IDs joined by a dash
+const ONE_TO_ONE_CONVERSATION_PATTERN = /^(\d+)-(\d+)$/;
+
+/**
+ * Turns the message events of a DM response into messages with their sender and media resolved
+ * from the includes. Participants joining or leaving a group conversation are left out.
+ */
+export function toDmMessages(events: DmEvent[], includes?: ApiV2Includes): DmMessage[] {
+  const resolver = new IncludesResolver(includes);
+  const messages: DmMessage[] = [];
+  
+  for (const event of events) {
+    if (event.event_type !== 'MessageCreate') {
+      continue;
+    }
+    
+    const senderId = event.sender_id || '';
+    const media = resolver.getMedia(event.attachments?.media_keys);
+    messages.push({
+      id: event.id,
+      dm_conversation_id: event.dm_conversation_id,
+      sender: resolver.getAuthor(senderId) || { id: senderId },
+      text: event.text,
+      created_at: event.created_at,
+      ...(media.length ? { media } : {})
+    });
+  }
+  
+  return messages;
+}
+
+/**
+ * Groups messages into conversations, most recently active first. `myUserId` is left out of
+ * the participants; the other side of a one-to-one conversation is known from its ID even
+ * when they have not written in the fetched messages.
+ */
+export function summarizeDmConversations(messages: DmMessage[], myUserId: string): DmConversationSummary[] {
+  const conversations = new Map<string, DmConversationSummary>();
+  
+  // Messages arrive newest first, so the first one seen is the last message
+  for (const message of messages) {
+    const conversationId = message.dm_conversation_id;
+    if (!conversationId) {
+      continue;
+    }
+    
+    let conversation = conversations.get(conversationId);
+    if (!conversation) {
+      conversation = { dm_conversation_id: conversationId, participants: [], message_count: 0, last_message: message };
+      conversations.set(conversationId, conversation);
+      
+      const oneToOne = conversationId.match(ONE_TO_ONE_CONVERSATION_PATTERN);
+      for (const id of oneToOne ? [oneToOne[1], oneToOne[2]] : []) {
+        if (id !== myUserId) {
+          conversation.participants.push({ id });
+        }
+      }
+    }
+    
+    conversation.message_count++;
+    
+    const known = conversation.participants.find(participant => participant.id === message.sender.id);
+    if (known) {
+      Object.assign(known, message.sender);
+    } else if (message.sender.id && message.sender.id !== myUserId) {
+      conversation.participants.push(message.sender);
+    }
+  }
+  
+  return [...conversations.values()];
+}
+
+function formatParticipant(participant: DmParticipant): string {
+  return participant.username ? `@${participant.username}` : `user ${participant.id}`;
+}
+
+function formatDmMessage(message: DmMessage): string {
+  const media = (message.media || []).map(item => `\n**Media (${item.type}):** ${item.url || 'no URL available'}${item.alt_text ? ` (alt: ${item.alt_text})` : ''}`);
+  return `**${formatParticipant(message.sender)}** (${message.created_at ? new Date(message.created_at).toLocaleString() : 'N/A'}, ID: ${message.id}):
+${message.text}${media.join('')}`;
+}
+
+export function formatDmConversations(conversations: DmConversationSummary[]): string {
+  if (!conversations.length) {
+    return 'No DM conversations found.';
+  }
+  
+  return conversations.map(conversation => {
+    const participants = conversation.participants.map(formatParticipant).join(', ') || 'only you';
+    return `**Conversation ${conversation.dm_conversation_id}** with ${participants}
+Messages fetched: ${conversation.message_count}
+Last message: ${formatDmMessage(conversation.last_message)}`;
+  }).join('\n\n---\n\n');
+}
+
+// Oldest first, the way a conversation is read
+export function formatDmMessages(messages: DmMessage[]): string {
+  if (!messages.length) {
+    return 'No messages found.';
+  }
+  
+  return [...messages].reverse().map(formatDmMessage).join('\n\n');
+}
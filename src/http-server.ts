@@ -0,0 +1,326 @@
+import { createServer, IncomingMessage, Server as NodeHttpServer, ServerResponse } from 'http';
+import { randomUUID } from 'crypto';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { ClientAuthConfig, ClientAuthenticator, ClientAuthError, PROTECTED_RESOURCE_METADATA_PATH } from './client-auth.js';
+
+export interface HttpServerOptions {
+  host: string;
+  port: number;
+  publicUrl?: string;
+  auth?: ClientAuthConfig | null;
+  sessionIdleTimeoutMs: number;
+}
+
+interface Session {
+  server: Server;
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  clientId?: string;
+  lastActivity: number;
+  activeRequests: number;
+}
+
+type AuthenticatedRequest = IncomingMessage & { auth?: AuthInfo };
+
+const MCP_PATH = '/mcp';
+const SSE_PATH = '/sse';
+const SSE_MESSAGES_PATH = '/messages';
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+const DEFAULT_SESSION_IDLE_SECONDS = 30 * 60;
+const INTROSPECTION_RETRY_AFTER_SECONDS = 5;
+
+class RequestBodyTooLargeError extends Error {}
+
+export function getHttpServerOptions(): HttpServerOptions {
+  const port = Number(process.env.MCP_HTTP_PORT || 3001);
+  if (!Number.isInteger(port) || port <= 0 || port > 65535) {
+    throw new Error(`Invalid MCP_HTTP_PORT: ${process.env.MCP_HTTP_PORT}`);
+  }
+  
+  const idleSeconds = Number(process.env.MCP_HTTP_SESSION_IDLE_SECONDS || DEFAULT_SESSION_IDLE_SECONDS);
+  if (!Number.isFinite(idleSeconds) || idleSeconds <= 0) {
+    throw new Error(`Invalid MCP_HTTP_SESSION_IDLE_SECONDS: ${process.env.MCP_HTTP_SESSION_IDLE_SECONDS}`);
+  }
+  
+  return {
+    host: process.env.MCP_HTTP_HOST || '127.0.0.1',
+    port,
+    publicUrl: process.env.MCP_HTTP_PUBLIC_URL?.replace(/\/+$/, ''),
+    sessionIdleTimeoutMs: idleSeconds * 1000
+  };
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, message: string, headers: Record<string, string> = {}): void {
+  if (res.headersSent) {
+    return;
+  }
+  
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify({ jsonrpc: '2.0', error: { code: -32000, message }, id: null }));
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new RequestBodyTooLargeError();
+    }
+    chunks.push(chunk);
+  }
+  
+  return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+}
+
+/**
+ * Serves MCP over the Streamable HTTP transport on /mcp, with the legacy SSE transport
+ * on /sse and /messages for older clients. Every session gets its own MCP server
+ * instance from `createMcpServer`, while the X client behind them is shared.
+ * When client authentication is configured, every MCP request must carry valid
+ * credentials and a session can only be used by the client that opened it.
+ * Streamable HTTP sessions with no request for `sessionIdleTimeoutMs` are closed.
+ */
+export class McpHttpServer {
+  private httpServer: NodeHttpServer;
+  private sessions = new Map<string, Session>();
+  private authenticator?: ClientAuthenticator;
+  private idleSweep?: NodeJS.Timeout;
+  
+  constructor(private createMcpServer: () => Server, private options: HttpServerOptions) {
+    if (options.auth) {
+      this.authenticator = new ClientAuthenticator(options.auth, this.url);
+    }
+    
+    this.httpServer = createServer((req, res) => {
+      this.handleRequest(req, res).catch(error => {
+        console.error('[HTTP Error]', error);
+        sendJsonRpcError(res, 500, 'Internal server error');
+      });
+    });
+  }
+  
+  async start(): Promise<void> {
+    await new Promise<void>((resolve, reject) => {
+      this.httpServer.once('error', reject);
+      this.httpServer.listen(this.options.port, this.options.host, () => {
+        this.httpServer.off('error', reject);
+        resolve();
+      });
+    });
+    
+    const sweepIntervalMs = Math.min(this.options.sessionIdleTimeoutMs, 60 * 1000);
+    this.idleSweep = setInterval(() => this.closeIdleSessions(), sweepIntervalMs);
+    this.idleSweep.unref();
+  }
+  
+  get url(): string {
+    return this.options.publicUrl || `http://${this.options.host}:${this.options.port}`;
+  }
+  
+  get isAuthenticated(): boolean {
+    return !!this.authenticator;
+  }
+  
+  async close(): Promise<void> {
+    clearInterval(this.idleSweep);
+    
+    for (const sessionId of [...this.sessions.keys()]) {
+      await this.closeSession(sessionId);
+    }
+    
+    await new Promise<void>(resolve => {
+      this.httpServer.close(() => resolve());
+      this.httpServer.closeAllConnections();
+    });
+  }
+  
+  private async closeSession(sessionId: string): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return;
+    }
+    this.sessions.delete(sessionId);
+    
+    try {
+      await session.transport.close();
+      await session.server.close();
+    } catch (error) {
+      console.error('Failed to close MCP session:', error);
+    }
+  }
+  
+  // SSE sessions end with their event stream, so only Streamable HTTP sessions can go idle
+  private async closeIdleSessions(): Promise<void> {
+    const idleSince = Date.now() - this.options.sessionIdleTimeoutMs;
+    
+    for (const [sessionId, session] of this.sessions) {
+      if (session.transport instanceof StreamableHTTPServerTransport && !session.activeRequests && session.lastActivity <= idleSince) {
+        console.error(`Closing MCP session ${sessionId} after ${Math.round(this.options.sessionIdleTimeoutMs / 1000)}s without requests`);
+        await this.closeSession(sessionId);
+      }
+    }
+  }
+  
+  private async handleRequest(req: AuthenticatedRequest, res: ServerResponse): Promise<void> {
+    const { pathname, searchParams } = new URL(req.url || '/', 'http://localhost');
+    
+    if (pathname === PROTECTED_RESOURCE_METADATA_PATH && req.method === 'GET' && this.authenticator) {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(this.authenticator.getProtectedResourceMetadata()));
+      return;
+    }
+    
+    const isMcpRoute = pathname === MCP_PATH
+      || (pathname === SSE_PATH && req.method === 'GET')
+      || (pathname === SSE_MESSAGES_PATH && req.method === 'POST');
+    if (!isMcpRoute) {
+      sendJsonRpcError(res, 404, 'Not found');
+      return;
+    }
+    
+    // Credentials come first, so that unauthenticated clients cannot make the server buffer and parse bodies
+    if (this.authenticator) {
+      try {
+        req.auth = await this.authenticator.authenticate(req);
+      } catch (error) {
+        this.sendAuthError(res, error);
+        return;
+      }
+    }
+    
+    let body: unknown;
+    if (req.method === 'POST') {
+      try {
+        body = await readJsonBody(req);
+      } catch (error) {
+        if (error instanceof RequestBodyTooLargeError) {
+          sendJsonRpcError(res, 413, `Request body exceeds ${MAX_BODY_BYTES / (1024 * 1024)}MB. Send larger media as a path inside the server's X_MEDIA_DIR instead of base64 data`);
+        } else {
+          sendJsonRpcError(res, 400, 'Parse error: request body must be JSON');
+        }
+        return;
+      }
+    }
+    
+    if (this.authenticator && req.auth) {
+      try {
+        this.authenticator.authorizeRequestBody(req.auth, body);
+      } catch (error) {
+        this.sendAuthError(res, error);
+        return;
+      }
+    }
+    
+    if (pathname === MCP_PATH) {
+      await this.handleStreamableHttp(req, res, body);
+    } else if (pathname === SSE_PATH) {
+      await this.handleSseConnect(req, res);
+    } else {
+      await this.handleSseMessage(req, res, body, searchParams.get('sessionId'));
+    }
+  }
+  
+  private sendAuthError(res: ServerResponse, error: unknown): void {
+    if (!(error instanceof ClientAuthError)) {
+      throw error;
+    }
+    // An introspection timeout says nothing about the token, so ask the client to retry rather than re-authenticate
+    const headers: Record<string, string> = error.status === 503
+      ? { 'Retry-After': String(INTROSPECTION_RETRY_AFTER_SECONDS) }
+      : { 'WWW-Authenticate': this.authenticator!.challenge(error) };
+    sendJsonRpcError(res, error.status, error.message, headers);
+  }
+  
+  private getSession(req: AuthenticatedRequest, res: ServerResponse, sessionId: string): Session | undefined {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      sendJsonRpcError(res, 404, 'Session not found');
+      return undefined;
+    }
+    
+    if (session.clientId !== req.auth?.clientId) {
+      sendJsonRpcError(res, 403, 'Session belongs to a different client');
+      return undefined;
+    }
+    
+    return session;
+  }
+  
+  private async handleStreamableHttp(req: AuthenticatedRequest, res: ServerResponse, body: unknown): Promise<void> {
+    const sessionId = req.headers['mcp-session-id'];
+    
+    if (typeof sessionId === 'string') {
+      const session = this.getSession(req, res, sessionId);
+      if (!session) {
+        return;
+      }
+      if (!(session.transport instanceof StreamableHTTPServerTransport)) {
+        sendJsonRpcError(res, 400, 'Session uses the SSE transport');
+        return;
+      }
+      
+      // A GET stream stays open for as long as the client listens, and keeps the session active
+      session.activeRequests++;
+      res.once('close', () => {
+        session.activeRequests--;
+        session.lastActivity = Date.now();
+      });
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+    
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, 'Bad Request: no valid session ID provided');
+      return;
+    }
+    
+    const server = this.createMcpServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: id => {
+        this.sessions.set(id, { server, transport, clientId: req.auth?.clientId, lastActivity: Date.now(), activeRequests: 0 });
+      }
+    });
+    
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        this.sessions.delete(transport.sessionId);
+      }
+    };
+    
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  }
+  
+  private async handleSseConnect(req: AuthenticatedRequest, res: ServerResponse): Promise<void> {
+    const server = this.createMcpServer();
+    const transport = new SSEServerTransport(SSE_MESSAGES_PATH, res);
+    this.sessions.set(transport.sessionId, { server, transport, clientId: req.auth?.clientId, lastActivity: Date.now(), activeRequests: 0 });
+    
+    res.on('close', () => {
+      this.sessions.delete(transport.sessionId);
+      server.close().catch(() => {});
+    });
+    
+    // connect() starts the transport, which opens the event stream
+    await server.connect(transport);
+  }
+  
+  private async handleSseMessage(req: AuthenticatedRequest, res: ServerResponse, body: unknown, sessionId: string | null): Promise<void> {
+    const session = this.getSession(req, res, sessionId || '');
+    if (!session) {
+      return;
+    }
+    if (!(session.transport instanceof SSEServerTransport)) {
+      sendJsonRpcError(res, 400, 'Session uses the Streamable HTTP transport');
+      return;
+    }
+    
+    await session.transport.handlePostMessage(req, res, body);
+  }
+}
@@ -8,503 +8,164 @@ import {
   ErrorCode,
   McpError
 } from '@modelcontextprotocol/sdk/types.js';
-import { XTools } from './tools.js';
+import { XTools, ToolContext } from './tools.js';
+import { AuthMode } from './twitter-client.js';
+import { getMissingScopes } from './auth-manager.js';
+import { McpHttpServer, getHttpServerOptions } from './http-server.js';
+import { loadClientAuthConfig, isToolAllowed } from './client-auth.js';
+import { restrictMediaPaths } from './media.js';
+import { ToolDefinition, toolDefinitions, getToolDefinition, listToolMetadata } from './tool-registry.js';
+
+type TransportMode = 'stdio' | 'http';
+
+function isToolAvailable(tool: ToolDefinition, authMode: AuthMode | null): boolean {
+  return authMode === 'user' || !!tool.availableWithoutAuth || (authMode === 'app' && !!tool.appOnly);
+}
 
 class XProfileMCPServer {
-  private server: Server;
+  private server?: Server;
+  private httpServer?: McpHttpServer;
   private tools: XTools;
+  private servers = new Set<Server>();
+  private authMode: AuthMode | null = null;
   
   constructor() {
-    this.server = new Server(
+    try {
+      this.tools = new XTools();
+      console.error('X Profile MCP Server initialized successfully');
+    } catch (error) {
+      console.error('Failed to initialize X Profile MCP Server:', error);
+      console.error('Please ensure OAuth 2.0 credentials (X_CLIENT_ID and X_CLIENT_SECRET) or an app-only X_BEARER_TOKEN are configured.');
+      process.exit(1);
+    }
+  }
+  
+  // One MCP server per connection; all of them share the same X client
+  private createServer(): Server {
+    const server = new Server(
       {
         name: 'x-profile-mcp-server',
         version: '1.0.0',
       },
       {
         capabilities: {
-          tools: {},
+          tools: { listChanged: true },
         },
       }
     );
     
-    try {
-      this.tools = new XTools();
-      console.error('X Profile MCP Server initialized successfully');
-    } catch (error) {
-      console.error('Failed to initialize X Profile MCP Server:', error);
-      console.error('Please ensure OAuth 2.0 credentials are configured and run "pnpm run setup-auth" to authenticate.');
-      process.exit(1);
+    this.setupToolHandlers(server);
+    this.setupErrorHandling(server);
+    
+    this.servers.add(server);
+    server.onclose = () => {
+      this.servers.delete(server);
+    };
+    return server;
+  }
+  
+  /**
+   * Until the default account is authenticated the server runs in a degraded mode that
+   * only offers the auth tools, plus the public read tools when an app-only bearer token
+   * is configured. Tokens may also appear from a setup-auth run elsewhere, so this is
+   * checked again on every request until it succeeds, and connected clients are told to
+   * reload the tool list whenever the mode changes.
+   */
+  private async checkAuthentication(): Promise<AuthMode | null> {
+    if (this.authMode === 'user') {
+      return this.authMode;
     }
     
-    this.setupToolHandlers();
-    this.setupErrorHandling();
+    const authMode = await this.tools.getAuthMode();
+    if (authMode !== this.authMode) {
+      this.authMode = authMode;
+      if (authMode === 'user') {
+        console.error('X account authenticated, all tools are now available');
+      }
+      for (const server of this.servers) {
+        server.sendToolListChanged().catch(error => {
+          console.error('Failed to send tool list change notification:', error);
+        });
+      }
+    }
+    return this.authMode;
   }
   
-  private setupToolHandlers() {
+  private setupToolHandlers(server: Server) {
     // List available tools
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
-      const tools = [
-          {
-            name: 'get_user_profile',
-            description: 'Fetch X/Twitter user profile information including bio, follower count, and verification status',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                username: {
-                  type: 'string',
-                  description: 'X/Twitter username (without @ symbol)',
-                },
-              },
-              required: ['username'],
-            },
-          },
-          {
-            name: 'get_user_timeline',
-            description: 'Fetch recent tweets from a user\'s timeline',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                username: {
-                  type: 'string',
-                  description: 'X/Twitter username (without @ symbol)',
-                },
-                limit: {
-                  type: 'number',
-                  description: 'Number of tweets to fetch (1-100)',
-                  minimum: 1,
-                  maximum: 100,
-                  default: 10,
-                },
-              },
-              required: ['username'],
-            },
-          },
-          {
-            name: 'search_tweets',
-            description: 'Search for tweets by keywords, hashtags, or phrases',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                query: {
-                  type: 'string',
-                  description: 'Search query (keywords, hashtags, etc.)',
-                },
-                limit: {
-                  type: 'number',
-                  description: 'Number of tweets to fetch (1-100)',
-                  minimum: 1,
-                  maximum: 100,
-                  default: 10,
-                },
-              },
-              required: ['query'],
-            },
-          },
-          {
-            name: 'get_user_followers',
-            description: 'Fetch a list of users following the specified account',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                username: {
-                  type: 'string',
-                  description: 'X/Twitter username (without @ symbol)',
-                },
-                limit: {
-                  type: 'number',
-                  description: 'Number of followers to fetch (1-1000)',
-                  minimum: 1,
-                  maximum: 1000,
-                  default: 10,
-                },
-              },
-              required: ['username'],
-            },
-          },
-          {
-            name: 'get_user_following',
-            description: 'Fetch a list of users that the specified account follows',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                username: {
-                  type: 'string',
-                  description: 'X/Twitter username (without @ symbol)',
-                },
-                limit: {
-                  type: 'number',
-                  description: 'Number of following accounts to fetch (1-1000)',
-                  minimum: 1,
-                  maximum: 1000,
-                  default: 10,
-                },
-              },
-              required: ['username'],
-            },
-          },
-          {
-            name: 'get_my_profile',
-            description: 'Get your authenticated X/Twitter profile information',
-            inputSchema: {
-              type: 'object',
-              properties: {},
-              required: [],
-            },
-          },
-          {
-            name: 'get_my_bookmarks',
-            description: 'Fetch your bookmarked tweets',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                limit: {
-                  type: 'number',
-                  description: 'Number of bookmarks to fetch (1-100)',
-                  minimum: 1,
-                  maximum: 100,
-                  default: 10,
-                },
-              },
-              required: [],
-            },
-          },
-          {
-            name: 'manage_bookmark',
-            description: 'Add or remove a tweet bookmark',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                tweetId: {
-                  type: 'string',
-                  description: 'Tweet ID to bookmark/unbookmark',
-                },
-                action: {
-                  type: 'string',
-                  enum: ['add', 'remove'],
-                  description: 'Action to perform: add or remove bookmark',
-                },
-              },
-              required: ['tweetId', 'action'],
-            },
-          },
-          {
-            name: 'get_my_likes',
-            description: 'Fetch your liked tweets',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                limit: {
-                  type: 'number',
-                  description: 'Number of liked tweets to fetch (1-100)',
-                  minimum: 1,
-                  maximum: 100,
-                  default: 10,
-                },
-              },
-              required: [],
-            },
-          },
-          {
-            name: 'manage_like',
-            description: 'Like or unlike a tweet',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                tweetId: {
-                  type: 'string',
-                  description: 'Tweet ID to like/unlike',
-                },
-                action: {
-                  type: 'string',
-                  enum: ['like', 'unlike'],
-                  description: 'Action to perform: like or unlike',
-                },
-              },
-              required: ['tweetId', 'action'],
-            },
-          },
-          {
-            name: 'get_my_timeline',
-            description: 'Get your home timeline tweets',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                limit: {
-                  type: 'number',
-                  description: 'Number of timeline tweets to fetch (1-100)',
-                  minimum: 1,
-                  maximum: 100,
-                  default: 10,
-                },
-              },
-              required: [],
-            },
-          },
-          {
-            name: 'get_my_lists',
-            description: 'Get your X/Twitter lists',
-            inputSchema: {
-              type: 'object',
-              properties: {},
-              required: [],
-            },
-          },
-          {
-            name: 'get_list',
-            description: 'Get details of a specific X/Twitter list',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                listId: {
-                  type: 'string',
-                  description: 'List ID to fetch',
-                },
-              },
-              required: ['listId'],
-            },
-          },
-          {
-            name: 'get_list_tweets',
-            description: 'Get tweets from a specific X/Twitter list',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                listId: {
-                  type: 'string',
-                  description: 'List ID to get tweets from',
-                },
-                limit: {
-                  type: 'number',
-                  description: 'Number of tweets to fetch (1-100)',
-                  minimum: 1,
-                  maximum: 100,
-                  default: 10,
-                },
-              },
-              required: ['listId'],
-            },
-          },
-          {
-            name: 'get_list_members',
-            description: 'Get members of a specific X/Twitter list',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                listId: {
-                  type: 'string',
-                  description: 'List ID to get members from',
-                },
-                limit: {
-                  type: 'number',
-                  description: 'Number of members to fetch (1-100)',
-                  minimum: 1,
-                  maximum: 100,
-                  default: 10,
-                },
-              },
-              required: ['listId'],
-            },
-          },
-          {
-            name: 'create_list',
-            description: 'Create a new X/Twitter list',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                name: {
-                  type: 'string',
-                  description: 'List name (max 25 characters)',
-                },
-                description: {
-                  type: 'string',
-                  description: 'List description (max 100 characters)',
-                },
-                private: {
-                  type: 'boolean',
-                  description: 'Whether the list should be private',
-                  default: false,
-                },
-              },
-              required: ['name'],
-            },
-          },
-          {
-            name: 'update_list',
-            description: 'Update an existing X/Twitter list',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                listId: {
-                  type: 'string',
-                  description: 'List ID to update',
-                },
-                name: {
-                  type: 'string',
-                  description: 'New list name (max 25 characters)',
-                },
-                description: {
-                  type: 'string',
-                  description: 'New list description (max 100 characters)',
-                },
-                private: {
-                  type: 'boolean',
-                  description: 'Whether the list should be private',
-                },
-              },
-              required: ['listId'],
-            },
-          },
-          {
-            name: 'delete_list',
-            description: 'Delete an X/Twitter list',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                listId: {
-                  type: 'string',
-                  description: 'List ID to delete',
-                },
-              },
-              required: ['listId'],
-            },
-          },
-          {
-            name: 'manage_list_member',
-            description: 'Add or remove a member from an X/Twitter list',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                listId: {
-                  type: 'string',
-                  description: 'List ID to manage',
-                },
-                username: {
-                  type: 'string',
-                  description: 'Username to add/remove (without @)',
-                },
-                action: {
-                  type: 'string',
-                  enum: ['add', 'remove'],
-                  description: 'Action to perform: add or remove member',
-                },
-              },
-              required: ['listId', 'username', 'action'],
-            },
-          },
-        ];
-        
-        return {
-          tools,
-        };
-      });
+    server.setRequestHandler(ListToolsRequestSchema, async (_request, extra) => {
+      // Tools the current auth mode cannot serve, or needing scopes the default
+      // account did not grant, are hidden
+      const authMode = await this.checkAuthentication();
+      const grantedScopes = authMode === 'user' ? await this.tools.getGrantedScopes() : undefined;
+      const tools = toolDefinitions.filter(tool =>
+        isToolAvailable(tool, authMode)
+        && !getMissingScopes(grantedScopes, tool.requiredScopes).length
+        && isToolAllowed(extra.authInfo, tool.name)
+      );
+      
+      return {
+        tools: listToolMetadata(tools),
+      };
+    });
     
     // Handle tool calls
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
       const { name, arguments: args } = request.params;
+      const tool = getToolDefinition(name);
       
       try {
-        switch (name) {
-          case 'get_user_profile': {
-            const parsed = XTools.schemas.getUserProfile.parse(args);
-            return await this.tools.getUserProfile(parsed);
-          }
-          
-          case 'get_user_timeline': {
-            const parsed = XTools.schemas.getUserTimeline.parse(args);
-            return await this.tools.getUserTimeline(parsed);
-          }
-          
-          case 'search_tweets': {
-            const parsed = XTools.schemas.searchTweets.parse(args);
-            return await this.tools.searchTweets(parsed);
-          }
-          
-          case 'get_user_followers': {
-            const parsed = XTools.schemas.getUserFollowers.parse(args);
-            return await this.tools.getUserFollowers(parsed);
-          }
-          
-          case 'get_user_following': {
-            const parsed = XTools.schemas.getUserFollowing.parse(args);
-            return await this.tools.getUserFollowing(parsed);
-          }
-          
-          case 'get_my_profile': {
-            const parsed = XTools.schemas.getMyProfile.parse(args);
-            return await this.tools.getMyProfile(parsed);
-          }
-          
-          case 'get_my_timeline': {
-            const parsed = XTools.schemas.getMyTimeline.parse(args);
-            return await this.tools.getMyTimeline(parsed);
-          }
-          
-          case 'get_my_bookmarks': {
-            const parsed = XTools.schemas.getMyBookmarks.parse(args);
-            return await this.tools.getMyBookmarks(parsed);
-          }
-          
-          case 'manage_bookmark': {
-            const parsed = XTools.schemas.manageBookmark.parse(args);
-            return await this.tools.manageBookmark(parsed);
-          }
-          
-          case 'get_my_likes': {
-            const parsed = XTools.schemas.getMyLikes.parse(args);
-            return await this.tools.getMyLikes(parsed);
-          }
-          
-          case 'manage_like': {
-            const parsed = XTools.schemas.manageLike.parse(args);
-            return await this.tools.manageLike(parsed);
-          }
-          
-          case 'get_my_lists': {
-            const parsed = XTools.schemas.getMyLists.parse(args);
-            return await this.tools.getMyLists(parsed);
-          }
-          
-          case 'get_list': {
-            const parsed = XTools.schemas.getList.parse(args);
-            return await this.tools.getList(parsed);
-          }
-          
-          case 'get_list_tweets': {
-            const parsed = XTools.schemas.getListTweets.parse(args);
-            return await this.tools.getListTweets(parsed);
-          }
-          
-          case 'get_list_members': {
-            const parsed = XTools.schemas.getListMembers.parse(args);
-            return await this.tools.getListMembers(parsed);
-          }
-          
-          case 'create_list': {
-            const parsed = XTools.schemas.createList.parse(args);
-            return await this.tools.createList(parsed);
-          }
-          
-          case 'update_list': {
-            const parsed = XTools.schemas.updateList.parse(args);
-            return await this.tools.updateList(parsed);
-          }
-          
-          case 'delete_list': {
-            const parsed = XTools.schemas.deleteList.parse(args);
-            return await this.tools.deleteList(parsed);
-          }
-          
-          case 'manage_list_member': {
-            const parsed = XTools.schemas.manageListMember.parse(args);
-            return await this.tools.manageListMember(parsed);
-          }
-          
-          default:
-            throw new McpError(
-              ErrorCode.MethodNotFound,
-              `Unknown tool: ${name}`
-            );
+        if (!tool) {
+          throw new McpError(
+            ErrorCode.MethodNotFound,
+            `Unknown tool: ${name}`
+          );
         }
+        
+        // HTTP clients are limited to the tools their API key or token allows
+        if (!isToolAllowed(extra.authInfo, name)) {
+          throw new McpError(
+            ErrorCode.InvalidRequest,
+            `Client "${extra.authInfo?.clientId}" is not allowed to call ${name}`
+          );
+        }
+        
+        const authMode = await this.checkAuthentication();
+        if (!isToolAvailable(tool, authMode)) {
+          throw new McpError(
+            ErrorCode.InvalidRequest,
+            authMode === 'app'
+              ? `${name} needs a logged-in X account, but the server only has an app-only bearer token (X_BEARER_TOKEN). Use start_auth and complete_auth to log in first.`
+              : 'The X account is not authenticated yet. Use start_auth and complete_auth to authenticate first.'
+          );
+        }
+        
+        const parsed = tool.inputSchema.parse(args);
+        
+        const missingScopes = await this.tools.getMissingScopes(tool.requiredScopes, parsed.account);
+        if (missingScopes.length) {
+          throw new McpError(
+            ErrorCode.InvalidRequest,
+            `${name} needs the ${missingScopes.join(', ')} scope, which the X account did not grant. Re-authenticate requesting it, with start_auth or with "pnpm run setup-auth -- --reset" and then "--scopes".`
+          );
+        }
+        
+        // Confirmations go to the user through the client rather than through the model
+        const context: ToolContext = {
+          confirm: server.getClientCapabilities()?.elicitation
+            ? async message => {
+              const answer = await server.elicitInput({ message, requestedSchema: { type: 'object', properties: {} } });
+              return answer.action === 'accept';
+            }
+            : undefined
+        };
+        
+        const result = await tool.handler(this.tools, parsed, context);
+        
+        if (tool.availableWithoutAuth) {
+          await this.checkAuthentication();
+        }
+        return result;
       } catch (error) {
         if (error instanceof McpError) {
           throw error;
@@ -526,26 +187,63 @@ class XProfileMCPServer {
     });
   }
   
-  private setupErrorHandling() {
-    this.server.onerror = (error) => {
+  private setupErrorHandling(server: Server) {
+    server.onerror = (error) => {
       console.error('[MCP Server Error]', error);
     };
   }
   
-  async start() {
-    const transport = new StdioServerTransport();
-    await this.server.connect(transport);
+  async start(mode: TransportMode) {
+    if (mode === 'http') {
+      restrictMediaPaths();
+      const auth = await loadClientAuthConfig();
+      this.httpServer = new McpHttpServer(() => this.createServer(), { ...getHttpServerOptions(), auth });
+      await this.httpServer.start();
+      
+      console.error(`X Profile MCP Server running on ${this.httpServer.url} (Streamable HTTP at /mcp, legacy SSE at /sse)`);
+      if (!this.httpServer.isAuthenticated) {
+        console.error('WARNING: MCP_AUTH_CONFIG is not set. Anyone who can reach this server can act as the authenticated X account.');
+      }
+    } else {
+      this.server = this.createServer();
+      await this.server.connect(new StdioServerTransport());
+      
+      console.error('X Profile MCP Server running on stdio');
+    }
+    
+    const authMode = await this.checkAuthentication();
+    if (authMode === 'app') {
+      console.error('The X account is not authenticated. Running in app-only mode with X_BEARER_TOKEN: personal tools are disabled until authentication succeeds.');
+    } else if (!authMode) {
+      console.error('The X account is not authenticated. Running in degraded mode: only auth_status, start_auth and complete_auth are available until authentication succeeds.');
+    }
     
-    console.error('X Profile MCP Server running on stdio');
-    console.error('Available tools: get_user_profile, get_user_timeline, search_tweets, get_user_followers, get_user_following, get_my_profile, get_my_timeline, get_my_bookmarks, manage_bookmark, get_my_likes, manage_like');
+    const availableTools = toolDefinitions.filter(tool => isToolAvailable(tool, authMode));
+    console.error(`Available tools: ${availableTools.map(tool => tool.name).join(', ')}`);
+  }
+  
+  async stop() {
+    await this.httpServer?.close();
+    await this.server?.close();
+  }
+}
+
+function getTransportMode(): TransportMode {
+  const mode = process.argv.includes('--http') ? 'http' : (process.env.MCP_TRANSPORT || 'stdio');
+  if (mode !== 'stdio' && mode !== 'http') {
+    throw new Error(`Invalid MCP_TRANSPORT "${mode}". Use "stdio" or "http".`);
   }
+  return mode;
 }
 
+let server: XProfileMCPServer | undefined;
+
 // Start the server
 async function main() {
   try {
-    const server = new XProfileMCPServer();
-    await server.start();
+    const mode = getTransportMode();
+    server = new XProfileMCPServer();
+    await server.start(mode);
   } catch (error) {
     console.error('Failed to start server:', error);
     process.exit(1);
@@ -553,19 +251,22 @@ async function main() {
 }
 
 // Handle graceful shutdown
-process.on('SIGINT', () => {
-  console.error('Received SIGINT, shutting down gracefully...');
+async function shutdown(signal: string) {
+  console.error(`Received ${signal}, shutting down gracefully...`);
+  try {
+    await server?.stop();
+  } catch (error) {
+    console.error('Error during shutdown:', error);
+  }
   process.exit(0);
-});
+}
 
-process.on('SIGTERM', () => {
-  console.error('Received SIGTERM, shutting down gracefully...');
-  process.exit(0);
-});
+process.on('SIGINT', () => shutdown('SIGINT'));
+process.on('SIGTERM', () => shutdown('SIGTERM'));
 
 if (import.meta.url === `file://${process.argv[1]}`) {
   main().catch((error) => {
     console.error('Fatal error:', error);
     process.exit(1);
   });
-}
\ No newline at end of file
+}
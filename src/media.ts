@@ -0,0 +1,254 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+// Upload limits published by X for each media category
+// See https://docs.x.com/x-api/media/quickstart/best-practices
+const MEDIA_LIMITS = {
+  tweet_image: { maxBytes: 5 * 1024 * 1024 },
+  tweet_gif: { maxBytes: 15 * 1024 * 1024 },
+  tweet_video: { maxBytes: 512 * 1024 * 1024, minDurationSecs: 0.5, maxDurationSecs: 140 }
+};
+
+export const MAX_ALT_TEXT_LENGTH = 1000;
+export const MAX_MEDIA_PER_TWEET = 4;
+
+export type MediaCategory = keyof typeof MEDIA_LIMITS;
+
+export interface MediaInput {
+  path?: string;
+  data?: string;
+  altText?: string;
+}
+
+export interface MediaFile {
+  buffer: Buffer;
+  mimeType: string;
+  category: MediaCategory;
+  altText?: string;
+  durationSecs?: number;
+  label: string;
+}
+
+// Set in HTTP mode, where the caller is not the local user and must not read arbitrary files
+let mediaPathsRestricted = false;
+
+/**
+ * Only allows `path` inputs inside X_MEDIA_DIR, and none at all when it is not set.
+ */
+export function restrictMediaPaths(): void {
+  mediaPathsRestricted = true;
+}
+
+export function sniffMimeType(buffer: Buffer): string | null {
+  if (buffer.length >= 3 && buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) {
+    return 'image/jpeg';
+  }
+  
+  if (buffer.length >= 8 && buffer.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    return 'image/png';
+  }
+  
+  const header = buffer.subarray(0, 12).toString('latin1');
+  
+  if (header.startsWith('GIF87a') || header.startsWith('GIF89a')) {
+    return 'image/gif';
+  }
+  
+  if (header.startsWith('RIFF') && header.slice(8, 12) === 'WEBP') {
+    return 'image/webp';
+  }
+  
+  // ISO base media files (MP4, MOV) start with an "ftyp" box naming the major brand
+  if (header.slice(4, 8) === 'ftyp') {
+    return header.slice(8, 12) === 'qt  ' ? 'video/quicktime' : 'video/mp4';
+  }
+  
+  return null;
+}
+
+export function isAnimatedGif(buffer: Buffer): boolean {
+  // Each frame is preceded by a graphic control extension (0x21 0xF9 0x04)
+  let frames = 0;
+  for (let i = 0; i < buffer.length - 2; i++) {
+    if (buffer[i] === 0x21 && buffer[i + 1] === 0xf9 && buffer[i + 2] === 0x04) {
+      frames++;
+      if (frames > 1) {
+        return true;
+      }
+    }
+  }
+  return false;
+}
+
+function findBox(buffer: Buffer, type: string, start: number, end: number): { start: number; end: number } | null {
+  let offset = start;
+  
+  while (offset + 8 <= end) {
+    let size = buffer.readUInt32BE(offset);
+    let headerSize = 8;
+    
+    if (size === 1) {
+      // 64-bit size following the type
+      if (offset + 16 > end) {
+        return null;
+      }
+      size = Number(buffer.readBigUInt64BE(offset + 8));
+      headerSize = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    
+    if (size < headerSize) {
+      return null;
+    }
+    
+    if (buffer.toString('latin1', offset + 4, offset + 8) === type) {
+      return { start: offset + headerSize, end: Math.min(offset + size, end) };
+    }
+    
+    offset += size;
+  }
+  
+  return null;
+}
+
+/**
+ * Reads the duration from the movie header (moov/mvhd) of an MP4 or MOV file.
+ */
+export function readVideoDuration(buffer: Buffer): number | null {
+  const moov = findBox(buffer, 'moov', 0, buffer.length);
+  if (!moov) {
+    return null;
+  }
+  
+  const mvhd = findBox(buffer, 'mvhd', moov.start, moov.end);
+  if (!mvhd) {
+    return null;
+  }
+  
+  // Version 1 headers use 64-bit times, so the timescale and duration sit further in
+  const version = buffer[mvhd.start];
+  if (mvhd.end - mvhd.start < (version === 1 ? 32 : 20)) {
+    return null;
+  }
+  
+  const timescale = version === 1 ? buffer.readUInt32BE(mvhd.start + 20) : buffer.readUInt32BE(mvhd.start + 12);
+  const duration = version === 1 ? Number(buffer.readBigUInt64BE(mvhd.start + 24)) : buffer.readUInt32BE(mvhd.start + 16);
+  
+  return timescale ? duration / timescale : null;
+}
+
+/**
+ * Resolves a `path` input. With X_MEDIA_DIR set, relative paths are taken from that directory
+ * and the file (after following symlinks) must be inside it.
+ */
+async function resolveMediaPath(inputPath: string): Promise<string> {
+  const mediaDir = process.env.X_MEDIA_DIR;
+  if (!mediaDir) {
+    if (mediaPathsRestricted) {
+      throw new Error('Local media paths are disabled in HTTP mode. Send the file as base64 "data" (requests are limited to 4MB), or set X_MEDIA_DIR on the server to allow paths inside that directory');
+    }
+    return inputPath;
+  }
+  
+  let root: string;
+  let filePath: string;
+  try {
+    root = await fs.realpath(mediaDir);
+    filePath = await fs.realpath(path.resolve(root, inputPath));
+  } catch (error) {
+    throw new Error(`Cannot read media file ${inputPath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+  
+  if (!filePath.startsWith(root + path.sep)) {
+    throw new Error(`Media file ${inputPath} is outside X_MEDIA_DIR`);
+  }
+  return filePath;
+}
+
+function formatBytes(bytes: number): string {
+  return `${(bytes / (1024 * 1024)).toFixed(1)}MB`;
+}
+
+async function readMediaInput(input: MediaInput): Promise<{ buffer: Buffer; label: string }> {
+  if ((input.path && input.data) || (!input.path && !input.data)) {
+    throw new Error('Each media item needs either "path" or "data", but not both');
+  }
+  
+  if (input.path) {
+    const filePath = await resolveMediaPath(input.path);
+    try {
+      return { buffer: await fs.readFile(filePath), label: path.basename(input.path) };
+    } catch (error) {
+      throw new Error(`Cannot read media file ${input.path}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+  
+  // Accept both raw base64 and data URLs
+  const base64 = input.data!.replace(/^data:[^;]+;base64,/, '');
+  const buffer = Buffer.from(base64, 'base64');
+  if (!buffer.length) {
+    throw new Error('Media data is not valid base64');
+  }
+  
+  return { buffer, label: 'base64 data' };
+}
+
+export async function loadMediaFile(input: MediaInput): Promise<MediaFile> {
+  const { buffer, label } = await readMediaInput(input);
+  
+  const mimeType = sniffMimeType(buffer);
+  if (!mimeType) {
+    throw new Error(`Unsupported media type for ${label}. Supported formats: JPEG, PNG, WEBP, GIF, MP4, MOV`);
+  }
+  
+  let category: MediaCategory = 'tweet_image';
+  if (mimeType === 'image/gif' && isAnimatedGif(buffer)) {
+    category = 'tweet_gif';
+  } else if (mimeType.startsWith('video/')) {
+    category = 'tweet_video';
+  }
+  
+  const limits: { maxBytes: number; minDurationSecs?: number; maxDurationSecs?: number } = MEDIA_LIMITS[category];
+  if (buffer.length > limits.maxBytes) {
+    throw new Error(`${label} is ${formatBytes(buffer.length)}; the limit for ${category.replace('tweet_', '')} uploads is ${formatBytes(limits.maxBytes)}`);
+  }
+  
+  let durationSecs: number | undefined;
+  if (category === 'tweet_video') {
+    durationSecs = readVideoDuration(buffer) ?? undefined;
+    if (durationSecs === undefined) {
+      throw new Error(`Could not read the duration of ${label}. Is it a valid MP4/MOV file?`);
+    }
+    if (durationSecs < limits.minDurationSecs! || durationSecs > limits.maxDurationSecs!) {
+      throw new Error(`${label} is ${durationSecs.toFixed(1)}s long; videos must be between ${limits.minDurationSecs}s and ${limits.maxDurationSecs}s`);
+    }
+  }
+  
+  if (input.altText && input.altText.length > MAX_ALT_TEXT_LENGTH) {
+    throw new Error(`Alt text for ${label} is too long (max ${MAX_ALT_TEXT_LENGTH} characters)`);
+  }
+  
+  return { buffer, mimeType, category, altText: input.altText, durationSecs, label };
+}
+
+/**
+ * Loads and validates every attachment before anything is uploaded.
+ * A tweet can carry up to 4 images, or a single GIF or video.
+ */
+export async function loadMediaFiles(inputs: MediaInput[]): Promise<MediaFile[]> {
+  if (inputs.length > MAX_MEDIA_PER_TWEET) {
+    throw new Error(`A tweet can have at most ${MAX_MEDIA_PER_TWEET} media attachments`);
+  }
+  
+  const files = [];
+  for (const input of inputs) {
+    files.push(await loadMediaFile(input));
+  }
+  
+  if (files.length > 1 && files.some(file => file.category !== 'tweet_image')) {
+    throw new Error('A GIF or video must be the only media attachment on a tweet');
+  }
+  
+  return files;
+}
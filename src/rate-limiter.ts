@@ -0,0 +1,159 @@
+import {
+  ApiResponseError,
+  ITwitterApiClientPlugin,
+  ITwitterApiAfterRequestHookArgs,
+  ITwitterApiBeforeRequestHookArgs,
+  ITwitterApiResponseErrorHookArgs,
+  TwitterApiPluginResponseOverride,
+  TwitterRateLimit
+} from 'twitter-api-v2';
+
+export interface RateLimitBudget {
+  endpoint: string;
+  limit: number;
+  remaining: number;
+  reset: number;
+  updatedAt: number;
+}
+
+export interface RateLimiterOptions {
+  maxRetries: number;
+  maxWaitMs: number;
+  baseDelayMs: number;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+export function formatResetTime(reset: number): string {
+  const resetDate = new Date(reset * 1000);
+  const minutes = Math.max(Math.ceil((resetDate.getTime() - Date.now()) / 60000), 0);
+  const time = resetDate.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', hour12: false });
+  return `${time} (in ${minutes} min)`;
+}
+
+/**
+ * Request layer shared by every TwitterApi instance the client creates. It tracks the
+ * rate limit headers of each endpoint, refuses calls that are certain to be rejected,
+ * and retries 429 responses, and 5xx responses to GET requests, with jittered exponential backoff.
+ */
+export class RateLimiter implements ITwitterApiClientPlugin {
+  private budgets = new Map<string, RateLimitBudget>();
+  private attempts = new WeakMap<object, number>();
+  private options: RateLimiterOptions;
+  
+  constructor(options: Partial<RateLimiterOptions> = {}) {
+    this.options = {
+      maxRetries: Number(process.env.X_RATE_LIMIT_MAX_RETRIES) || 3,
+      maxWaitMs: (Number(process.env.X_RATE_LIMIT_MAX_WAIT_SECONDS) || 30) * 1000,
+      baseDelayMs: 1000,
+      ...options
+    };
+  }
+  
+  static endpointKey(method: string, url: URL): string {
+    const pathname = url.pathname
+      .replace(/\/by\/username\/[^/]+/, '/by/username/:username')
+      .replace(/\/\d{4,}(?=\/|$)/g, '/:id');
+    return `${method.toUpperCase()} ${pathname}`;
+  }
+  
+  async onBeforeRequest(args: ITwitterApiBeforeRequestHookArgs): Promise<void> {
+    const endpoint = RateLimiter.endpointKey(args.computedParams.method, args.url);
+    const budget = this.budgets.get(endpoint);
+    
+    if (!budget || budget.remaining > 0) {
+      return;
+    }
+    
+    const waitMs = budget.reset * 1000 - Date.now();
+    if (waitMs <= 0) {
+      return;
+    }
+    
+    if (waitMs > this.options.maxWaitMs) {
+      throw new Error(`Rate limit exhausted for ${endpoint}. Resets at ${formatResetTime(budget.reset)}`);
+    }
+    
+    console.error(`Rate limit exhausted for ${endpoint}, waiting ${Math.ceil(waitMs / 1000)}s for reset...`);
+    await sleep(waitMs + 500);
+  }
+  
+  onAfterRequest(args: ITwitterApiAfterRequestHookArgs): void {
+    this.record(RateLimiter.endpointKey(args.computedParams.method, args.url), args.response.rateLimit);
+  }
+  
+  async onResponseError(args: ITwitterApiResponseErrorHookArgs): Promise<TwitterApiPluginResponseOverride | void> {
+    const { error } = args;
+    const endpoint = RateLimiter.endpointKey(args.computedParams.method, args.url);
+    this.record(endpoint, error.rateLimit);
+    
+    // A 429 was certainly rejected, but a write that failed with a 5xx may still have gone
+    // through, so only idempotent GET requests are retried on server errors
+    const isRateLimited = error.code === 429;
+    const isRetryableServerError = error.code >= 500 && args.computedParams.method.toUpperCase() === 'GET';
+    if (!isRateLimited && !isRetryableServerError) {
+      return;
+    }
+    
+    const attempt = this.attempts.get(args.params) || 0;
+    if (attempt >= this.options.maxRetries) {
+      throw this.describeError(endpoint, error);
+    }
+    
+    let delayMs = this.options.baseDelayMs * 2 ** attempt * (0.5 + Math.random() / 2);
+    if (isRateLimited && error.rateLimit?.reset) {
+      const resetWaitMs = error.rateLimit.reset * 1000 - Date.now() + 500;
+      if (resetWaitMs > this.options.maxWaitMs) {
+        throw this.describeError(endpoint, error);
+      }
+      delayMs = Math.max(delayMs, resetWaitMs);
+    }
+    
+    console.error(`${endpoint} failed with ${error.code}, retrying in ${Math.ceil(delayMs / 1000)}s (attempt ${attempt + 1}/${this.options.maxRetries})...`);
+    await sleep(delayMs);
+    
+    this.attempts.set(args.params, attempt + 1);
+    const response = await args.client.send(args.params);
+    return new TwitterApiPluginResponseOverride(response);
+  }
+  
+  getStatus(): RateLimitBudget[] {
+    return [...this.budgets.values()].sort((a, b) => a.remaining / a.limit - b.remaining / b.limit);
+  }
+  
+  formatStatus(): string {
+    const budgets = this.getStatus();
+    if (!budgets.length) {
+      return 'No rate limit information yet. Budgets are recorded as endpoints are called.';
+    }
+    
+    return budgets.map(budget => {
+      const resetPassed = budget.reset * 1000 <= Date.now();
+      return `**${budget.endpoint}**
+Remaining: ${resetPassed ? budget.limit : budget.remaining}/${budget.limit}${resetPassed ? ' (window reset)' : ` | Resets at ${formatResetTime(budget.reset)}`}`;
+    }).join('\n\n');
+  }
+  
+  private record(endpoint: string, rateLimit?: TwitterRateLimit): void {
+    if (!rateLimit || Number.isNaN(rateLimit.remaining)) {
+      return;
+    }
+    
+    this.budgets.set(endpoint, {
+      endpoint,
+      limit: rateLimit.limit,
+      remaining: rateLimit.remaining,
+      reset: rateLimit.reset,
+      updatedAt: Date.now()
+    });
+  }
+  
+  private describeError(endpoint: string, error: ApiResponseError): Error {
+    if (error.code === 429 && error.rateLimit?.reset) {
+      return new Error(`Rate limit exceeded for ${endpoint}. Resets at ${formatResetTime(error.rateLimit.reset)}`);
+    }
+    return new Error(`${endpoint} failed with ${error.code} after ${this.options.maxRetries} retries: ${error.message}`);
+  }
+}
@@ -0,0 +1,258 @@
+import { promises as fs } from 'fs';
+import { readFileSync, writeFileSync } from 'fs';
+
+export const CACHE_MODES = ['use', 'refresh', 'bypass'] as const;
+
+export type CacheMode = typeof CACHE_MODES[number];
+
+export const CACHE_RESOURCES = ['userId', 'profile', 'me', 'followers', 'relationships', 'lists', 'tweets', 'timeline', 'search', 'conversation', 'bookmarks', 'likes', 'dms'] as const;
+
+export type CacheResource = typeof CACHE_RESOURCES[number];
+
+// How long each kind of response is served from the cache
+export const CACHE_TTLS: Record<CacheResource, number> = {
+  userId: 24 * 60 * 60 * 1000,
+  profile: 5 * 60 * 1000,
+  me: 5 * 60 * 1000,
+  followers: 5 * 60 * 1000,
+  relationships: 5 * 60 * 1000,
+  lists: 5 * 60 * 1000,
+  tweets: 30 * 1000,
+  timeline: 30 * 1000,
+  search: 30 * 1000,
+  conversation: 30 * 1000,
+  bookmarks: 30 * 1000,
+  likes: 30 * 1000,
+  dms: 30 * 1000
+};
+
+// Public data that may be written to the cache file. Everything else can hold private or
+// protected content (DMs, the home timeline, private lists, protected tweets) and stays in memory
+export const PERSISTED_RESOURCES: readonly CacheResource[] = ['userId', 'profile', 'search'];
+
+export interface ResponseCacheOptions {
+  maxEntries: number;
+  filePath?: string;
+}
+
+interface CacheEntry {
+  key: string;
+  account: string;
+  resource: CacheResource;
+  value: unknown;
+  expiresAt: number;
+}
+
+function getMaxEntries(): number {
+  const value = process.env.X_CACHE_MAX_ENTRIES;
+  if (value === undefined || value === '') {
+    return 1000;
+  }
+  
+  const maxEntries = Number(value);
+  if (!Number.isInteger(maxEntries) || maxEntries < 0) {
+    throw new Error(`Invalid X_CACHE_MAX_ENTRIES: ${value}`);
+  }
+  return maxEntries;
+}
+
+/**
+ * Read-through cache for X API responses, keyed by account so that results fetched
+ * with one account's permissions are never served to another. Entries live in an LRU
+ * in memory; with a file path they are also appended to a JSON-lines file, which is
+ * loaded and compacted at startup so the cache survives restarts. Only public resources
+ * (PERSISTED_RESOURCES) are written to the file.
+ */
+export class ResponseCache {
+  private entries = new Map<string, CacheEntry>();
+  private options: ResponseCacheOptions;
+  private fileLines = 0;
+  private fileWrites: Promise<void> = Promise.resolve();
+  
+  constructor(options: Partial<ResponseCacheOptions> = {}) {
+    this.options = {
+      maxEntries: getMaxEntries(),
+      filePath: process.env.X_CACHE_FILE || undefined,
+      ...options
+    };
+    
+    if (this.options.filePath) {
+      this.loadFile(this.options.filePath);
+    }
+  }
+  
+  get size(): number {
+    return this.entries.size;
+  }
+  
+  /**
+   * Returns the cached response for `args` unless it is missing, expired or `mode` asks
+   * for fresh data; otherwise calls `fetch` and, unless bypassing, caches the result.
+   */
+  async getOrFetch<T>(account: string, resource: CacheResource, args: unknown[], mode: CacheMode, fetch: () => Promise<T>): Promise<T> {
+    const key = `${account}:${resource}:${JSON.stringify(args)}`;
+    
+    if (mode === 'use') {
+      const entry = this.get(key);
+      if (entry) {
+        return structuredClone(entry.value) as T;
+      }
+    }
+    
+    const value = await fetch();
+    if (mode !== 'bypass') {
+      this.set({ key, account, resource, value: structuredClone(value), expiresAt: Date.now() + CACHE_TTLS[resource] });
+    }
+    return value;
+  }
+  
+  /**
+   * Removes the entries of one account and/or resource type, or everything.
+   * Returns the number of entries removed.
+   */
+  clear(filter: { account?: string; resource?: CacheResource } = {}): number {
+    let removed = 0;
+    
+    for (const [key, entry] of this.entries) {
+      if ((!filter.account || entry.account === filter.account) && (!filter.resource || entry.resource === filter.resource)) {
+        this.entries.delete(key);
+        removed++;
+      }
+    }
+    
+    if (removed) {
+      this.rewriteFile();
+    }
+    return removed;
+  }
+  
+  private get(key: string): CacheEntry | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    
+    // Re-insert to mark the entry as most recently used
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry;
+  }
+  
+  private set(entry: CacheEntry): void {
+    if (!this.options.maxEntries) {
+      return;
+    }
+    
+    this.entries.delete(entry.key);
+    this.entries.set(entry.key, entry);
+    
+    while (this.entries.size > this.options.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+    
+    this.appendToFile(entry);
+  }
+  
+  private loadFile(filePath: string): void {
+    let contents: string;
+    try {
+      contents = readFileSync(filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error(`Failed to read cache file ${filePath}:`, error);
+      }
+      return;
+    }
+    
+    const now = Date.now();
+    for (const line of contents.split('\n')) {
+      if (!line.trim()) {
+        continue;
+      }
+      
+      try {
+        const entry = JSON.parse(line) as CacheEntry;
+        this.entries.delete(entry.key);
+        if (entry.expiresAt > now && PERSISTED_RESOURCES.includes(entry.resource)) {
+          this.entries.set(entry.key, entry);
+        }
+      } catch {
+        // A line cut short by a crash; the rewrite below drops it
+      }
+    }
+    
+    while (this.entries.size > this.options.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value as string);
+    }
+    
+    // Compact the file down to the live entries
+    try {
+      const entries = this.persistedEntries();
+      writeFileSync(filePath, this.serialize(entries), { mode: 0o600 });
+      this.fileLines = entries.length;
+    } catch (error) {
+      console.error(`Failed to write cache file ${filePath}:`, error);
+    }
+  }
+  
+  private persistedEntries(): CacheEntry[] {
+    return [...this.entries.values()].filter(entry => PERSISTED_RESOURCES.includes(entry.resource));
+  }
+  
+  private serialize(entries: CacheEntry[]): string {
+    return entries.map(entry => `${JSON.stringify(entry)}\n`).join('');
+  }
+  
+  private appendToFile(entry: CacheEntry): void {
+    const filePath = this.options.filePath;
+    if (!filePath || !PERSISTED_RESOURCES.includes(entry.resource)) {
+      return;
+    }
+    
+    // Rewrite instead of appending once the file is mostly superseded entries
+    if (++this.fileLines > this.options.maxEntries * 2) {
+      this.rewriteFile();
+      return;
+    }
+    
+    const line = `${JSON.stringify(entry)}\n`;
+    this.queueFileWrite(() => fs.appendFile(filePath, line, { mode: 0o600 }));
+  }
+  
+  private rewriteFile(): void {
+    const filePath = this.options.filePath;
+    if (!filePath) {
+      return;
+    }
+    
+    const entries = this.persistedEntries();
+    const contents = this.serialize(entries);
+    this.fileLines = entries.length;
+    this.queueFileWrite(() => fs.writeFile(filePath, contents, { mode: 0o600 }));
+  }
+  
+  // Writes run one at a time and in order, so a rewrite never interleaves with an append
+  private queueFileWrite(write: () => Promise<void>): void {
+    this.fileWrites = this.fileWrites.then(write).catch(error => {
+      console.error(`Failed to write cache file ${this.options.filePath}:`, error);
+    });
+  }
+}
+
+let sharedResponseCache: ResponseCache | undefined;
+
+/**
+ * The cache configured by X_CACHE_MAX_ENTRIES and X_CACHE_FILE, shared by every account in the process.
+ */
+export function getResponseCache(): ResponseCache {
+  if (!sharedResponseCache) {
+    sharedResponseCache = new ResponseCache();
+  }
+  return sharedResponseCache;
+}
@@ -0,0 +1,231 @@
+export const API_TIERS = ['basic', 'pro', 'enterprise'] as const;
+
+export type ApiTier = typeof API_TIERS[number];
+
+// Longest query each access tier accepts
+export const QUERY_LENGTH_LIMITS: Record<ApiTier, number> = {
+  basic: 512,
+  pro: 1024,
+  enterprise: 4096
+};
+
+// Operators that need Pro or Enterprise access
+const ADVANCED_OPERATORS = ['bio:', 'bio_name:', 'bio_location:', 'place:', 'place_country:', 'point_radius:', 'bounding_box:', 'has:geo', 'is:nullcast'];
+
+// Operators that only narrow a search down and cannot make up a query on their own
+const CONJUNCTION_REQUIRED_OPERATORS = ['is:', 'has:', 'lang:'];
+
+// Recent search covers the last 7 days; the full archive goes back to the first tweet
+const RECENT_SEARCH_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+const FULL_ARCHIVE_START = '2006-03-21T00:00:00Z';
+
+const USERNAME_PATTERN = /^[A-Za-z0-9_]{1,15}$/;
+const HASHTAG_PATTERN = /^[\p{L}\p{N}_]+$/u;
+const LANGUAGE_PATTERN = /^[a-z]{2,3}(-[a-z]{2,4})?$/i;
+
+export interface SearchQueryOptions {
+  tier?: ApiTier;
+  fullArchive?: boolean;
+}
+
+export interface AdvancedSearchFields {
+  keywords?: string;
+  exact_phrase?: string;
+  hashtags?: string[];
+  from?: string[];
+  to?: string[];
+  mentions?: string[];
+  has_media?: boolean;
+  has_links?: boolean;
+  is_reply?: boolean;
+  is_retweet?: boolean;
+  lang?: string;
+  exclude?: string[];
+}
+
+export function getApiTier(): ApiTier {
+  const tier = (process.env.X_API_TIER || 'basic').toLowerCase();
+  if (!API_TIERS.includes(tier as ApiTier)) {
+    throw new Error(`Invalid X_API_TIER: ${process.env.X_API_TIER}. Use one of: ${API_TIERS.join(', ')}`);
+  }
+  return tier as ApiTier;
+}
+
+// Terms of a query, with quoted phrases kept whole and grouping parentheses dropped
+function tokenize(query: string): string[] {
+  return query.match(/-?"[^"]*"|[^\s()]+/g) || [];
+}
+
+function isStandalone(token: string): boolean {
+  if (token.startsWith('-') || token === 'OR') {
+    return false;
+  }
+  return !CONJUNCTION_REQUIRED_OPERATORS.some(operator => token.toLowerCase().startsWith(operator));
+}
+
+/**
+ * Checks a search query against the rules X enforces, so that mistakes are reported
+ * before spending a request: length limits and operators of the access tier, balanced
+ * quotes and parentheses, and at least one term that is not a filter or a negation.
+ */
+export function validateSearchQuery(query: string, options: SearchQueryOptions = {}): void {
+  const { tier = getApiTier(), fullArchive = false } = options;
+  
+  if (!query.trim()) {
+    throw new Error('Search query cannot be empty');
+  }
+  
+  if (fullArchive && tier === 'basic') {
+    throw new Error('Full-archive search needs Pro or Enterprise access. Set X_API_TIER if your app has it.');
+  }
+  
+  const maxLength = QUERY_LENGTH_LIMITS[tier];
+  if (query.length > maxLength) {
+    throw new Error(`Search query is too long: ${query.length}/${maxLength} characters on the ${tier} tier`);
+  }
+  
+  if ((query.match(/"/g) || []).length % 2) {
+    throw new Error('Search query has an unclosed quote');
+  }
+  
+  let depth = 0;
+  for (const char of query.replace(/"[^"]*"/g, '')) {
+    depth += char === '(' ? 1 : char === ')' ? -1 : 0;
+    if (depth < 0) {
+      break;
+    }
+  }
+  if (depth !== 0) {
+    throw new Error('Search query has unbalanced parentheses');
+  }
+  
+  const tokens = tokenize(query);
+  
+  if (tier === 'basic') {
+    for (const token of tokens) {
+      const operator = ADVANCED_OPERATORS.find(advanced => token.replace(/^-/, '').toLowerCase().startsWith(advanced));
+      if (operator) {
+        throw new Error(`The ${operator} operator needs Pro or Enterprise access. Set X_API_TIER if your app has it.`);
+      }
+    }
+  }
+  
+  if (!tokens.some(isStandalone)) {
+    throw new Error('Search query needs at least one keyword, phrase, hashtag, mention, from: or to: term; is:, has: and lang: filters and negated terms can only narrow a search down');
+  }
+}
+
+/**
+ * Checks a start_time/end_time window against what the recent or full-archive endpoint accepts.
+ */
+export function validateSearchWindow(startTime: string | undefined, endTime: string | undefined, fullArchive: boolean = false): void {
+  const now = Date.now();
+  const start = startTime ? Date.parse(startTime) : undefined;
+  const end = endTime ? Date.parse(endTime) : undefined;
+  
+  if (start !== undefined && Number.isNaN(start)) {
+    throw new Error(`Invalid start_time: ${startTime}`);
+  }
+  if (end !== undefined && Number.isNaN(end)) {
+    throw new Error(`Invalid end_time: ${endTime}`);
+  }
+  
+  if (start !== undefined && end !== undefined && start >= end) {
+    throw new Error('start_time must be before end_time');
+  }
+  
+  // X rejects end times less than 10 seconds in the past
+  if (end !== undefined && end > now - 10 * 1000) {
+    throw new Error('end_time must be at least 10 seconds in the past');
+  }
+  
+  if (start !== undefined) {
+    if (fullArchive && start < Date.parse(FULL_ARCHIVE_START)) {
+      throw new Error(`start_time cannot be before ${FULL_ARCHIVE_START}`);
+    }
+    if (!fullArchive && start < now - RECENT_SEARCH_WINDOW_MS) {
+      throw new Error('Recent search only covers the last 7 days; use full-archive search for older tweets');
+    }
+  }
+}
+
+function normalizeUsername(value: string): string {
+  const username = value.trim().replace(/^@/, '');
+  if (!USERNAME_PATTERN.test(username)) {
+    throw new Error(`Invalid username "${value}"`);
+  }
+  return username;
+}
+
+function normalizeHashtag(value: string): string {
+  const hashtag = value.trim().replace(/^#/, '');
+  if (!HASHTAG_PATTERN.test(hashtag)) {
+    throw new Error(`Invalid hashtag "${value}"`);
+  }
+  return hashtag;
+}
+
+function cleanTerm(value: string, field: string): string {
+  const term = value.trim().replace(/\s+/g, ' ');
+  if (!term) {
+    throw new Error(`Empty value in ${field}`);
+  }
+  if (term.includes('"')) {
+    throw new Error(`Values in ${field} cannot contain double quotes`);
+  }
+  return term;
+}
+
+function excludeTerm(value: string): string {
+  const term = cleanTerm(value, 'exclude');
+  return term.includes(' ') ? `-"${term}"` : `-${term}`;
+}
+
+// Alternatives are grouped so that they combine with the other terms as one
+function anyOf(terms: string[]): string | undefined {
+  if (!terms.length) {
+    return undefined;
+  }
+  return terms.length === 1 ? terms[0] : `(${terms.join(' OR ')})`;
+}
+
+function filter(operator: string, value: boolean | undefined): string | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  return value ? operator : `-${operator}`;
+}
+
+/**
+ * Compiles structured search fields into X query syntax. Values within one field are
+ * alternatives (any of the authors), and the fields are combined (all must match).
+ * Filters set to false exclude what they match, e.g. `is_retweet: false` gives `-is:retweet`.
+ */
+export function buildSearchQuery(fields: AdvancedSearchFields): string {
+  const keywords = fields.keywords?.trim();
+  const lang = fields.lang?.trim();
+  if (lang && !LANGUAGE_PATTERN.test(lang)) {
+    throw new Error(`Invalid language code "${fields.lang}". Use a BCP 47 code such as "en" or "pt"`);
+  }
+  
+  const terms = [
+    keywords && / OR /.test(keywords) ? `(${keywords})` : keywords,
+    fields.exact_phrase !== undefined ? `"${cleanTerm(fields.exact_phrase, 'exact_phrase')}"` : undefined,
+    anyOf((fields.hashtags || []).map(hashtag => `#${normalizeHashtag(hashtag)}`)),
+    anyOf((fields.from || []).map(username => `from:${normalizeUsername(username)}`)),
+    anyOf((fields.to || []).map(username => `to:${normalizeUsername(username)}`)),
+    anyOf((fields.mentions || []).map(username => `@${normalizeUsername(username)}`)),
+    filter('has:media', fields.has_media),
+    filter('has:links', fields.has_links),
+    filter('is:reply', fields.is_reply),
+    filter('is:retweet', fields.is_retweet),
+    lang ? `lang:${lang.toLowerCase()}` : undefined,
+    ...(fields.exclude || []).map(excludeTerm)
+  ];
+  
+  const query = terms.filter(Boolean).join(' ');
+  if (!query) {
+    throw new Error('Give at least one search field');
+  }
+  return query;
+}
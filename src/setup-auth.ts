@@ -1,11 +1,13 @@
 #!/usr/bin/env node
 
-import { OAuth2AuthManager } from './auth-manager.js';
+import { OAuth2AuthManager, parseAuthorizationResponse, resolveScopes } from './auth-manager.js';
+import { TokenStoreKind, createTokenStore, parseTokenStoreKind } from './token-store.js';
 import { TwitterClient } from './twitter-client.js';
 import { createServer } from 'http';
 import { parse } from 'url';
 import { exec } from 'child_process';
 import { promisify } from 'util';
+import { createInterface } from 'readline/promises';
 
 const execAsync = promisify(exec);
 
@@ -14,30 +16,38 @@ class OAuthSetup {
   private codeVerifier: string = '';
   private state: string = '';
   
-  constructor() {
+  constructor(account?: string) {
     try {
-      this.authManager = new OAuth2AuthManager();
+      this.authManager = new OAuth2AuthManager(account);
     } catch (error) {
       console.error('Failed to initialize OAuth manager:', error);
       process.exit(1);
     }
   }
   
-  async setup(): Promise<void> {
+  async setup(headless: boolean = false, scopes: string[] = resolveScopes()): Promise<void> {
     console.log('🚀 X Profile MCP Server - OAuth 2.0 Setup');
     console.log('=========================================\n');
+    console.log(`👤 Account: ${this.authManager.account}`);
+    console.log(`🔐 Scopes: ${scopes.join(' ')}\n`);
     
     try {
       // Check if already authenticated
       const isAuthenticated = await this.authManager.isAuthenticated();
       if (isAuthenticated) {
         console.log('✅ You are already authenticated!');
+        console.log('ℹ️  To change the granted scopes, run setup-auth with --reset first.');
         
         // Test the authentication
         await this.testAuthentication();
         return;
       }
       
+      if (headless) {
+        await this.setupHeadless(scopes);
+        return;
+      }
+      
       console.log('📋 This setup will:\n');
       console.log('   1. Generate an OAuth 2.0 authorization URL');
       console.log('   2. Open your web browser');
@@ -47,7 +57,7 @@ class OAuthSetup {
       
       // Generate auth link
       console.log('🔗 Generating authorization link...');
-      const { url, codeVerifier, state } = this.authManager.generateAuthLink();
+      const { url, codeVerifier, state } = this.authManager.generateAuthLink(scopes);
       this.codeVerifier = codeVerifier;
       this.state = state;
       
@@ -70,13 +80,59 @@ class OAuthSetup {
     }
   }
   
+  /**
+   * For machines without a browser or a reachable localhost (SSH sessions, containers):
+   * the user authorizes in any browser and pastes the URL they were redirected to.
+   */
+  private async setupHeadless(scopes: string[]): Promise<void> {
+    console.log('📋 This headless setup will:\n');
+    console.log('   1. Generate an OAuth 2.0 authorization URL');
+    console.log('   2. Ask you to open it in a browser on any machine');
+    console.log('   3. Ask you to paste the URL you are redirected to (or just its code)');
+    console.log('   4. Exchange the authorization code for access tokens');
+    console.log('   5. Save tokens for future use\n');
+    
+    console.log('🔗 Generating authorization link...');
+    const { url, codeVerifier, state } = this.authManager.generateAuthLink(scopes);
+    this.codeVerifier = codeVerifier;
+    this.state = state;
+    
+    console.log(`\n🌐 Authorization URL: ${url}\n`);
+    console.log('Open the URL above in a browser and authorize the app.');
+    console.log(`You will then be redirected to ${this.authManager.redirectUri}?code=...`);
+    console.log('That page may fail to load, which is expected. Copy the full URL from the address bar.\n');
+    
+    const input = await this.prompt('📋 Paste the redirect URL (or just the code): ');
+    const code = parseAuthorizationResponse(input, this.state);
+    
+    console.log('\n🔄 Exchanging authorization code for tokens...');
+    await this.authManager.exchangeCodeForTokens(code, this.codeVerifier);
+    
+    console.log('✅ Authentication successful!');
+    console.log('💾 Tokens saved successfully');
+    
+    await this.testAuthentication();
+  }
+  
+  private async prompt(question: string): Promise<string> {
+    const rl = createInterface({ input: process.stdin, output: process.stdout });
+    try {
+      return (await rl.question(question)).trim();
+    } finally {
+      rl.close();
+    }
+  }
+  
   private async startCallbackServer(): Promise<void> {
+    const redirect = new URL(this.authManager.redirectUri);
+    const port = Number(redirect.port) || (redirect.protocol === 'https:' ? 443 : 80);
+    
     return new Promise((resolve, reject) => {
       const server = createServer(async (req, res) => {
         try {
           const parsedUrl = parse(req.url || '', true);
           
-          if (parsedUrl.pathname === '/callback') {
+          if (parsedUrl.pathname === redirect.pathname) {
             const { code, state, error } = parsedUrl.query;
             
             if (error) {
@@ -158,13 +214,13 @@ class OAuthSetup {
         }
       });
       
-      server.listen(3000, 'localhost', () => {
-        console.log('🔄 Callback server started on http://localhost:3000');
+      server.listen(port, redirect.hostname, () => {
+        console.log(`🔄 Callback server started on http://${redirect.host}${redirect.pathname}`);
         resolve();
       });
       
       server.on('error', (error) => {
-        reject(error);
+        reject(new Error(`Cannot start the callback server on ${redirect.host}: ${error.message}. Use --headless to paste the redirect URL instead.`));
       });
       
       // Timeout after 5 minutes
@@ -193,7 +249,7 @@ class OAuthSetup {
       
       await execAsync(command);
     } catch (error) {
-      console.warn('⚠️  Failed to open browser automatically. Please copy and paste the URL above.');
+      console.warn('⚠️  Failed to open browser automatically. Please copy and paste the URL above, or run setup-auth with --headless.');
     }
   }
   
@@ -201,7 +257,7 @@ class OAuthSetup {
     try {
       console.log('\n🧪 Testing authentication...');
       
-      const twitterClient = new TwitterClient();
+      const twitterClient = new TwitterClient(this.authManager.account);
       const isAvailable = await twitterClient.isAuthenticationAvailable();
       
       if (!isAvailable) {
@@ -214,6 +270,11 @@ class OAuthSetup {
       console.log(`👋 Hello, @${profile.username} (${profile.name})`);
       console.log(`📊 Followers: ${profile.public_metrics?.followers_count?.toLocaleString() || 'N/A'}`);
       
+      const tokens = await this.authManager.loadTokens();
+      if (tokens?.scopes) {
+        console.log(`🔐 Granted scopes: ${tokens.scopes.join(' ')}`);
+      }
+      
       console.log('\n🎉 Setup complete! You can now use personal tools in the MCP server:');
       console.log('   • get_my_profile - Get your profile information');
       console.log('   • get_my_bookmarks - Fetch your bookmarks');
@@ -229,27 +290,108 @@ class OAuthSetup {
   }
   
   async reset(): Promise<void> {
-    console.log('🔄 Resetting authentication...');
+    console.log(`🔄 Resetting authentication for account "${this.authManager.account}"...`);
     await this.authManager.clearTokens();
     console.log('✅ Authentication cleared. Run setup again to re-authenticate.');
   }
 }
 
+// Reads "--name value" or "--name=value"
+function getOptionArg(args: string[], name: string, alias?: string): string | undefined {
+  const index = args.findIndex(arg => arg === name || (alias && arg === alias));
+  if (index !== -1) {
+    const value = args[index + 1];
+    if (!value || value.startsWith('-')) {
+      throw new Error(`${name} requires a value`);
+    }
+    return value;
+  }
+  
+  return args.find(arg => arg.startsWith(`${name}=`))?.slice(name.length + 1);
+}
+
+/**
+ * Copies the tokens of every account from one token store backend to another.
+ */
+async function migrateStore(from: TokenStoreKind, to: TokenStoreKind): Promise<void> {
+  if (from === to) {
+    throw new Error(`Source and target store are both "${from}"`);
+  }
+  if (from === 'memory' || to === 'memory') {
+    throw new Error('The memory store cannot be migrated from or to');
+  }
+  
+  console.log(`🔄 Migrating tokens from the ${from} store to the ${to} store...`);
+  const source = createTokenStore(from);
+  const target = createTokenStore(to);
+  
+  // Every account is read before anything is written, so tokens that cannot be read
+  // stop the migration before it has changed any file
+  const accounts: string[] = [];
+  for (const account of await source.listAccounts()) {
+    if (await source.load(account)) {
+      accounts.push(account);
+    }
+  }
+  
+  if (!accounts.length) {
+    console.log('ℹ️  No stored tokens found. Nothing to migrate.');
+    return;
+  }
+  
+  // Each account is copied under its lock, so a running server cannot refresh the tokens
+  // in between and have the new ones overwritten. Both file backends use the same files
+  // and lock files, so the source's lock covers the target too
+  for (const account of accounts) {
+    await source.withLock(account, async () => {
+      const tokens = await source.load(account);
+      if (tokens) {
+        await target.save(account, tokens);
+      }
+    });
+    console.log(`   • ${account}`);
+  }
+  
+  console.log(`✅ Migrated ${accounts.length} account(s).`);
+  console.log(`👉 Set X_TOKEN_STORE=${to} in your environment so the server reads the migrated tokens.`);
+}
+
 // CLI interface
 async function main() {
   const args = process.argv.slice(2);
-  const setup = new OAuthSetup();
   
-  if (args.includes('--reset') || args.includes('-r')) {
-    await setup.reset();
-  } else if (args.includes('--help') || args.includes('-h')) {
+  if (args.includes('--help') || args.includes('-h')) {
     console.log('X Profile MCP Server - OAuth 2.0 Setup\n');
     console.log('Usage:');
-    console.log('  setup-auth           Set up OAuth 2.0 authentication');
-    console.log('  setup-auth --reset   Clear existing authentication');
-    console.log('  setup-auth --help    Show this help message');
+    console.log('  setup-auth                  Set up OAuth 2.0 authentication for the default account');
+    console.log('  setup-auth --account NAME   Set up a named account profile (e.g. brand, support)');
+    console.log('  setup-auth --headless       Authorize without a local browser by pasting the redirect URL');
+    console.log('  setup-auth --scopes SCOPES  Scopes to request: read-only, standard, full (default)');
+    console.log('                              or a comma-separated list such as tweet.read,like.read');
+    console.log('  setup-auth --reset          Clear existing authentication (combine with --account)');
+    console.log('  setup-auth --migrate-store --to encrypted [--from file]');
+    console.log('                              Copy stored tokens between backends (file, encrypted)');
+    console.log('  setup-auth --help           Show this help message');
+    return;
+  }
+  
+  if (args.includes('--migrate-store')) {
+    const to = getOptionArg(args, '--to');
+    if (!to) {
+      throw new Error('--migrate-store requires --to <file|encrypted>');
+    }
+    const from = getOptionArg(args, '--from') || process.env.X_TOKEN_STORE || 'file';
+    await migrateStore(parseTokenStoreKind(from), parseTokenStoreKind(to));
+    return;
+  }
+  
+  const setup = new OAuthSetup(getOptionArg(args, '--account', '-a'));
+  
+  if (args.includes('--reset') || args.includes('-r')) {
+    await setup.reset();
   } else {
-    await setup.setup();
+    const scopes = getOptionArg(args, '--scopes');
+    await setup.setup(args.includes('--headless'), resolveScopes(scopes));
   }
 }
 
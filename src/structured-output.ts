@@ -0,0 +1,226 @@
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { ApiV2Includes, ListV2, TweetV2, UserV2 } from 'twitter-api-v2';
+import { ConversationNode } from './conversation.js';
+import { LOOKUP_ERROR_REASONS } from './twitter-client.js';
+import { IncludesResolver } from './tweet-includes.js';
+
+// Typed objects returned through MCP `structuredContent`, with the zod schemas
+// that are published as each tool's `outputSchema`.
+
+export const outputFormatSchema = z.enum(['markdown', 'json', 'both']).default('markdown')
+  .describe('Text output format: markdown, json, or both. Structured content is always included');
+
+export type OutputFormat = z.infer<typeof outputFormatSchema>;
+
+const publicMetricsSchema = z.record(z.number());
+
+const tweetAuthorOutputSchema = z.object({
+  id: z.string(),
+  username: z.string(),
+  name: z.string()
+});
+
+const referencedTweetOutputSchema = z.object({
+  id: z.string(),
+  text: z.string().optional().describe('Missing when the tweet is deleted or not visible'),
+  author: tweetAuthorOutputSchema.optional()
+});
+
+const mediaOutputSchema = z.object({
+  media_key: z.string(),
+  type: z.string(),
+  url: z.string().optional(),
+  alt_text: z.string().optional()
+});
+
+export const tweetOutputSchema = z.object({
+  id: z.string(),
+  text: z.string(),
+  author_id: z.string().optional(),
+  author: tweetAuthorOutputSchema.optional(),
+  created_at: z.string().optional(),
+  conversation_id: z.string().optional(),
+  public_metrics: publicMetricsSchema.optional(),
+  quoted_tweet: referencedTweetOutputSchema.optional(),
+  retweeted_tweet: referencedTweetOutputSchema.optional(),
+  replied_to_tweet: referencedTweetOutputSchema.optional(),
+  media: z.array(mediaOutputSchema).optional(),
+  poll: z.object({
+    options: z.array(z.object({ label: z.string(), votes: z.number() })),
+    voting_status: z.string().optional(),
+    end_datetime: z.string().optional()
+  }).optional()
+});
+
+export const postedTweetOutputSchema = z.object({
+  id: z.string(),
+  text: z.string(),
+  url: z.string()
+});
+
+export const userOutputSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  username: z.string(),
+  description: z.string().optional(),
+  verified: z.boolean().optional(),
+  created_at: z.string().optional(),
+  profile_image_url: z.string().optional(),
+  public_metrics: publicMetricsSchema.optional()
+});
+
+export const listOutputSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string().optional(),
+  member_count: z.number().optional(),
+  follower_count: z.number().optional(),
+  private: z.boolean().optional(),
+  created_at: z.string().optional()
+});
+
+export const conversationNodeSchema: z.ZodType<ConversationNode> = z.lazy(() => z.object({
+  id: z.string(),
+  text: z.string(),
+  author_id: z.string().optional(),
+  author_username: z.string().optional(),
+  created_at: z.string().optional(),
+  public_metrics: publicMetricsSchema.optional(),
+  parent_missing: z.boolean().optional(),
+  replies: z.array(conversationNodeSchema)
+})) as z.ZodType<ConversationNode>;
+
+const dmParticipantOutputSchema = z.object({
+  id: z.string(),
+  username: z.string().optional(),
+  name: z.string().optional()
+});
+
+export const dmMessageOutputSchema = z.object({
+  id: z.string(),
+  dm_conversation_id: z.string().optional(),
+  sender: dmParticipantOutputSchema,
+  text: z.string(),
+  created_at: z.string().optional(),
+  media: z.array(mediaOutputSchema).optional()
+});
+
+export const dmConversationOutputSchema = z.object({
+  dm_conversation_id: z.string(),
+  participants: z.array(dmParticipantOutputSchema).describe('Other participants; you are left out'),
+  message_count: z.number().describe('Messages of this conversation among those fetched'),
+  last_message: dmMessageOutputSchema
+});
+
+export const rateLimitBudgetOutputSchema = z.object({
+  endpoint: z.string(),
+  limit: z.number(),
+  remaining: z.number(),
+  reset: z.number().describe('Unix timestamp (seconds) when the window resets'),
+  updatedAt: z.number()
+});
+
+export const tweetPageOutputSchema = z.object({
+  tweets: z.array(tweetOutputSchema),
+  nextCursor: z.string().optional()
+});
+
+export const userPageOutputSchema = z.object({
+  users: z.array(userOutputSchema),
+  nextCursor: z.string().optional()
+});
+
+export const lookupErrorOutputSchema = z.object({
+  value: z.string().describe('The requested username or ID'),
+  reason: z.enum(LOOKUP_ERROR_REASONS),
+  detail: z.string().optional()
+});
+
+export const actionOutputSchema = z.object({
+  success: z.boolean()
+});
+
+export type TweetOutput = z.infer<typeof tweetOutputSchema>;
+export type UserOutput = z.infer<typeof userOutputSchema>;
+export type ListOutput = z.infer<typeof listOutputSchema>;
+
+export function toTweetOutput(tweet: TweetV2, resolver: IncludesResolver = new IncludesResolver()): TweetOutput {
+  return {
+    id: tweet.id,
+    text: tweet.text,
+    author_id: tweet.author_id,
+    created_at: tweet.created_at,
+    conversation_id: tweet.conversation_id,
+    public_metrics: tweet.public_metrics as Record<string, number> | undefined,
+    ...resolver.resolve(tweet)
+  };
+}
+
+// Tweets of one response, with its includes joined on
+export function toTweetOutputs(tweets: TweetV2[], includes?: ApiV2Includes): TweetOutput[] {
+  const resolver = new IncludesResolver(includes);
+  return tweets.map(tweet => toTweetOutput(tweet, resolver));
+}
+
+export function toPostedTweetOutput(tweet: { id: string; text: string }) {
+  return {
+    id: tweet.id,
+    text: tweet.text,
+    url: `https://x.com/i/web/status/${tweet.id}`
+  };
+}
+
+export function toUserOutput(user: UserV2): UserOutput {
+  return {
+    id: user.id,
+    name: user.name,
+    username: user.username,
+    description: user.description,
+    verified: user.verified,
+    created_at: user.created_at,
+    profile_image_url: user.profile_image_url,
+    public_metrics: user.public_metrics as Record<string, number> | undefined
+  };
+}
+
+export function toListOutput(list: ListV2): ListOutput {
+  return {
+    id: list.id,
+    name: list.name,
+    description: list.description,
+    member_count: list.member_count,
+    follower_count: list.follower_count,
+    private: list.private,
+    created_at: list.created_at
+  };
+}
+
+export function toJsonSchema(schema: z.ZodTypeAny): Record<string, unknown> {
+  const { $schema, ...jsonSchema } = zodToJsonSchema(schema, { strictUnions: true }) as Record<string, unknown>;
+  return jsonSchema;
+}
+
+/**
+ * Builds a tool result carrying both the text content selected by `format`
+ * and the structured object that matches the tool's output schema.
+ */
+export function toolResult<T extends Record<string, unknown>>(format: OutputFormat, markdown: string, data: T) {
+  const content: Array<{ type: 'text'; text: string }> = [];
+  
+  if (format !== 'json') {
+    content.push({ type: 'text', text: markdown });
+  }
+  if (format !== 'markdown') {
+    content.push({ type: 'text', text: JSON.stringify(data, null, 2) });
+  }
+  
+  return { content, structuredContent: data };
+}
+
+export function toolError(message: string) {
+  return {
+    content: [{ type: 'text' as const, text: message }],
+    isError: true
+  };
+}
@@ -0,0 +1,379 @@
+import { promises as fs } from 'fs';
+import { readFileSync } from 'fs';
+import path from 'path';
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'crypto';
+import type { OAuth2Tokens } from './auth-manager.js';
+
+// Account whose tokens live in the base tokens file (.tokens.json or X_TOKENS_PATH)
+export const DEFAULT_ACCOUNT = 'default';
+
+export const TOKEN_STORE_KINDS = ['file', 'encrypted', 'memory'] as const;
+
+export type TokenStoreKind = typeof TOKEN_STORE_KINDS[number];
+
+/**
+ * Persists the OAuth 2.0 tokens of each account profile.
+ */
+export interface TokenStore {
+  readonly kind: TokenStoreKind;
+  load(account: string): Promise<OAuth2Tokens | null>;
+  save(account: string, tokens: OAuth2Tokens): Promise<void>;
+  clear(account: string): Promise<void>;
+  listAccounts(): Promise<string[]>;
+  /** Runs `fn` while holding an exclusive lock on the account's tokens, across processes where the backend is shared. */
+  withLock<T>(account: string, fn: () => Promise<T>): Promise<T>;
+}
+
+interface EncryptedEnvelope {
+  version: 1;
+  algorithm: 'aes-256-gcm';
+  kdf: 'scrypt' | 'keyfile';
+  salt?: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+const LOCK_TIMEOUT_MS = 30 * 1000;
+const LOCK_STALE_MS = 60 * 1000;
+const LOCK_RETRY_MS = 100;
+
+const KEY_LENGTH = 32;
+const SCRYPT_OPTIONS = { N: 2 ** 15, r: 8, p: 1, maxmem: 64 * 1024 * 1024 };
+
+function getBaseTokensPath(): string {
+  // Check for custom tokens path from environment variable
+  const customPath = process.env.X_TOKENS_PATH;
+  if (customPath) {
+    return customPath;
+  }
+  
+  // Get the project directory from the current module's location
+  const currentDir = path.dirname(new URL(import.meta.url).pathname);
+  const projectDir = path.resolve(currentDir, '..');
+  
+  return path.join(projectDir, '.tokens.json');
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Cross-process lock based on exclusive creation of `lockPath`. A lock left behind by a
+ * crashed process is broken once it is older than LOCK_STALE_MS.
+ */
+async function withFileLock<T>(lockPath: string, fn: () => Promise<T>): Promise<T> {
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+  
+  while (true) {
+    try {
+      const handle = await fs.open(lockPath, 'wx', 0o600);
+      await handle.writeFile(JSON.stringify({ pid: process.pid, createdAt: Date.now() }));
+      await handle.close();
+      break;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw error;
+      }
+    }
+    
+    const stats = await fs.stat(lockPath).catch(() => null);
+    if (stats && Date.now() - stats.mtimeMs > LOCK_STALE_MS) {
+      console.error(`Removing stale token lock ${lockPath}`);
+      await fs.rm(lockPath, { force: true });
+      continue;
+    }
+    
+    if (Date.now() > deadline) {
+      throw new Error(`Timed out waiting for token lock ${lockPath}. Remove it if no other server is running.`);
+    }
+    await sleep(LOCK_RETRY_MS);
+  }
+  
+  try {
+    return await fn();
+  } finally {
+    await fs.rm(lockPath, { force: true });
+  }
+}
+
+function isEncryptedEnvelope(value: unknown): value is EncryptedEnvelope {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const envelope = value as Record<string, unknown>;
+  return envelope.algorithm === 'aes-256-gcm' && typeof envelope.data === 'string';
+}
+
+/**
+ * Stores each account in its own JSON file, readable only by the owner.
+ * Named accounts are stored next to the base file: .tokens.json -> .tokens.support.json
+ */
+export class FileTokenStore implements TokenStore {
+  readonly kind: TokenStoreKind = 'file';
+  
+  constructor(protected basePath: string = getBaseTokensPath()) {}
+  
+  async load(account: string): Promise<OAuth2Tokens | null> {
+    const contents = await this.readFile(account);
+    if (!contents) {
+      return null;
+    }
+    
+    const data = JSON.parse(contents);
+    if (isEncryptedEnvelope(data)) {
+      throw new Error(`Tokens for account "${account}" are encrypted. Set X_TOKEN_STORE=encrypted to read them.`);
+    }
+    return data;
+  }
+  
+  async save(account: string, tokens: OAuth2Tokens): Promise<void> {
+    await this.writeFile(account, JSON.stringify(tokens, null, 2));
+  }
+  
+  async clear(account: string): Promise<void> {
+    await fs.rm(this.getPath(account), { force: true });
+  }
+  
+  withLock<T>(account: string, fn: () => Promise<T>): Promise<T> {
+    return withFileLock(`${this.getPath(account)}.lock`, fn);
+  }
+  
+  async listAccounts(): Promise<string[]> {
+    const { dir, name, ext } = path.parse(this.basePath);
+    const escape = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const pattern = new RegExp(`^${escape(name)}(?:\\.([a-z0-9_-]+))?${escape(ext)}$`);
+    
+    let files: string[];
+    try {
+      files = await fs.readdir(dir || '.');
+    } catch {
+      return [];
+    }
+    
+    const accounts = files
+      .map(file => file.match(pattern))
+      .filter((match): match is RegExpMatchArray => match !== null)
+      .map(match => match[1] || DEFAULT_ACCOUNT);
+    
+    return [...new Set(accounts)].sort();
+  }
+  
+  protected getPath(account: string): string {
+    if (account === DEFAULT_ACCOUNT) {
+      return this.basePath;
+    }
+    
+    const { dir, name, ext } = path.parse(this.basePath);
+    return path.join(dir, `${name}.${account}${ext}`);
+  }
+  
+  protected async readFile(account: string): Promise<string | null> {
+    const filePath = this.getPath(account);
+    
+    try {
+      const stats = await fs.stat(filePath);
+      if (process.platform !== 'win32' && (stats.mode & 0o077) !== 0) {
+        console.error(`Warning: ${filePath} is readable by other users. It will be rewritten with 0600 permissions on the next save.`);
+      }
+      return await fs.readFile(filePath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+  
+  // Writes through a temporary file so a crash never leaves a truncated tokens file
+  protected async writeFile(account: string, contents: string): Promise<void> {
+    const filePath = this.getPath(account);
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    
+    await fs.writeFile(tempPath, contents, { mode: 0o600 });
+    await fs.chmod(tempPath, 0o600);
+    await fs.rename(tempPath, filePath);
+  }
+}
+
+/**
+ * Same layout as the file store, but each file holds the tokens encrypted with AES-256-GCM.
+ * The key is derived with scrypt from X_TOKEN_PASSPHRASE (with a random salt per file),
+ * or read from the 32-byte key in X_TOKEN_KEY_FILE. The account name is authenticated as
+ * additional data, so a file cannot be swapped in for another account.
+ */
+export class EncryptedFileTokenStore extends FileTokenStore {
+  readonly kind: TokenStoreKind = 'encrypted';
+  private keyFileKey?: Buffer;
+  private passphrase?: string;
+  // scrypt is deliberately slow, so keys are cached per salt (tokens are loaded on every API call)
+  private derivedKeys = new Map<string, Buffer>();
+  
+  constructor(basePath: string = getBaseTokensPath(), keySource: { passphrase?: string; keyFile?: string } = {
+    passphrase: process.env.X_TOKEN_PASSPHRASE,
+    keyFile: process.env.X_TOKEN_KEY_FILE
+  }) {
+    super(basePath);
+    
+    if (keySource.keyFile) {
+      this.keyFileKey = EncryptedFileTokenStore.readKeyFile(keySource.keyFile);
+    } else if (keySource.passphrase) {
+      this.passphrase = keySource.passphrase;
+    } else {
+      throw new Error('Encrypted token store needs X_TOKEN_PASSPHRASE or X_TOKEN_KEY_FILE to be set.');
+    }
+  }
+  
+  /**
+   * Reads a key file holding 32 bytes as raw binary, hex or base64.
+   */
+  static readKeyFile(keyFile: string): Buffer {
+    let contents: Buffer;
+    try {
+      contents = readFileSync(keyFile);
+    } catch (error) {
+      throw new Error(`Cannot read token key file ${keyFile}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+    
+    if (contents.length === KEY_LENGTH) {
+      return contents;
+    }
+    
+    const text = contents.toString('utf-8').trim();
+    const key = /^[0-9a-f]{64}$/i.test(text) ? Buffer.from(text, 'hex') : Buffer.from(text, 'base64');
+    if (key.length !== KEY_LENGTH) {
+      throw new Error(`Token key file ${keyFile} must contain a 32-byte key (raw, hex or base64). Generate one with: openssl rand -hex 32`);
+    }
+    return key;
+  }
+  
+  async load(account: string): Promise<OAuth2Tokens | null> {
+    const contents = await this.readFile(account);
+    if (!contents) {
+      return null;
+    }
+    
+    const envelope = JSON.parse(contents);
+    if (!isEncryptedEnvelope(envelope)) {
+      throw new Error(`Tokens for account "${account}" are stored in plain text. Run "pnpm run setup-auth -- --migrate-store --from file --to encrypted" to encrypt them.`);
+    }
+    
+    const key = this.getKey(envelope.kdf, envelope.salt ? Buffer.from(envelope.salt, 'base64') : undefined);
+    const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(envelope.iv, 'base64'));
+    decipher.setAAD(Buffer.from(account));
+    decipher.setAuthTag(Buffer.from(envelope.tag, 'base64'));
+    
+    try {
+      const plaintext = Buffer.concat([decipher.update(Buffer.from(envelope.data, 'base64')), decipher.final()]);
+      return JSON.parse(plaintext.toString('utf-8'));
+    } catch {
+      throw new Error(`Cannot decrypt tokens for account "${account}". Check X_TOKEN_PASSPHRASE or X_TOKEN_KEY_FILE.`);
+    }
+  }
+  
+  async save(account: string, tokens: OAuth2Tokens): Promise<void> {
+    const kdf = this.keyFileKey ? 'keyfile' : 'scrypt';
+    const salt = kdf === 'scrypt' ? randomBytes(16) : undefined;
+    const iv = randomBytes(12);
+    
+    const cipher = createCipheriv('aes-256-gcm', this.getKey(kdf, salt), iv);
+    cipher.setAAD(Buffer.from(account));
+    const data = Buffer.concat([cipher.update(JSON.stringify(tokens), 'utf-8'), cipher.final()]);
+    
+    const envelope: EncryptedEnvelope = {
+      version: 1,
+      algorithm: 'aes-256-gcm',
+      kdf,
+      salt: salt?.toString('base64'),
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      data: data.toString('base64')
+    };
+    
+    await this.writeFile(account, JSON.stringify(envelope, null, 2));
+  }
+  
+  private getKey(kdf: EncryptedEnvelope['kdf'], salt?: Buffer): Buffer {
+    if (kdf === 'keyfile') {
+      if (!this.keyFileKey) {
+        throw new Error('These tokens were encrypted with a key file. Set X_TOKEN_KEY_FILE to read them.');
+      }
+      return this.keyFileKey;
+    }
+    
+    if (!this.passphrase || !salt) {
+      throw new Error('These tokens were encrypted with a passphrase. Set X_TOKEN_PASSPHRASE to read them.');
+    }
+    const cacheKey = salt.toString('base64');
+    let key = this.derivedKeys.get(cacheKey);
+    if (!key) {
+      key = scryptSync(this.passphrase, salt, KEY_LENGTH, SCRYPT_OPTIONS);
+      if (this.derivedKeys.size >= 16) {
+        this.derivedKeys.clear();
+      }
+      this.derivedKeys.set(cacheKey, key);
+    }
+    return key;
+  }
+}
+
+/**
+ * Keeps tokens in process memory only. Useful for tests and short-lived runs.
+ */
+export class MemoryTokenStore implements TokenStore {
+  readonly kind: TokenStoreKind = 'memory';
+  private tokens = new Map<string, OAuth2Tokens>();
+  
+  async load(account: string): Promise<OAuth2Tokens | null> {
+    const tokens = this.tokens.get(account);
+    return tokens ? { ...tokens } : null;
+  }
+  
+  async save(account: string, tokens: OAuth2Tokens): Promise<void> {
+    this.tokens.set(account, { ...tokens });
+  }
+  
+  async clear(account: string): Promise<void> {
+    this.tokens.delete(account);
+  }
+  
+  async listAccounts(): Promise<string[]> {
+    return [...this.tokens.keys()].sort();
+  }
+  
+  // Nothing is shared with other processes, and refreshes are already single-flight in-process
+  withLock<T>(_account: string, fn: () => Promise<T>): Promise<T> {
+    return fn();
+  }
+}
+
+export function parseTokenStoreKind(kind: string): TokenStoreKind {
+  if (!(TOKEN_STORE_KINDS as readonly string[]).includes(kind)) {
+    throw new Error(`Invalid token store "${kind}". Use one of: ${TOKEN_STORE_KINDS.join(', ')}`);
+  }
+  return kind as TokenStoreKind;
+}
+
+export function createTokenStore(kind: TokenStoreKind = parseTokenStoreKind(process.env.X_TOKEN_STORE || 'file')): TokenStore {
+  switch (kind) {
+    case 'encrypted':
+      return new EncryptedFileTokenStore();
+    case 'memory':
+      return new MemoryTokenStore();
+    default:
+      return new FileTokenStore();
+  }
+}
+
+let sharedTokenStore: TokenStore | undefined;
+
+/**
+ * The store selected by X_TOKEN_STORE, shared by every account in the process.
+ */
+export function getTokenStore(): TokenStore {
+  if (!sharedTokenStore) {
+    sharedTokenStore = createTokenStore();
+  }
+  return sharedTokenStore;
+}
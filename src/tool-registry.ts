@@ -0,0 +1,459 @@
+import { z } from 'zod';
+import { XTools, ToolContext } from './tools.js';
+import { toJsonSchema } from './structured-output.js';
+
+type ToolResult = {
+  content: Array<{ type: 'text'; text: string }>;
+  structuredContent?: Record<string, unknown>;
+  isError?: boolean;
+};
+
+export interface ToolDefinition<T extends z.ZodTypeAny = z.ZodTypeAny> {
+  name: string;
+  description: string;
+  inputSchema: T;
+  outputSchema: z.ZodTypeAny;
+  // Offered while the default account is not authenticated yet
+  availableWithoutAuth?: boolean;
+  // Works without a logged-in account, using the app-only bearer token for public data
+  appOnly?: boolean;
+  // OAuth scopes needed beyond tweet.read and users.read, which are always granted
+  requiredScopes?: string[];
+  // A method, so that a definition for any schema is still a ToolDefinition<ZodTypeAny>
+  handler(tools: XTools, params: z.infer<T>, context: ToolContext): Promise<ToolResult>;
+}
+
+// Checks the handler against its own schema; the result fits in the list of all tools
+function defineTool<T extends z.ZodTypeAny>(definition: ToolDefinition<T>): ToolDefinition {
+  return definition;
+}
+
+/**
+ * Every MCP tool, declared once. The `tools/list` response and the call dispatch
+ * are both generated from this list, so a tool only has to be added here.
+ */
+export const toolDefinitions: ToolDefinition[] = [
+  // Profile and User Operations
+  defineTool({
+    name: 'get_user_profile',
+    description: 'Fetch X/Twitter user profile information including bio, follower count, and verification status',
+    inputSchema: XTools.schemas.getUserProfile,
+    outputSchema: XTools.outputSchemas.getUserProfile,
+    appOnly: true,
+    handler: (tools, params) => tools.getUserProfile(params)
+  }),
+  defineTool({
+    name: 'get_users',
+    description: 'Look up to 100 users by username or ID in one request, reporting which were not found, suspended or protected',
+    inputSchema: XTools.schemas.getUsers,
+    outputSchema: XTools.outputSchemas.getUsers,
+    appOnly: true,
+    handler: (tools, params) => tools.getUsers(params)
+  }),
+  defineTool({
+    name: 'get_user_timeline',
+    description: 'Fetch recent tweets from a user\'s timeline',
+    inputSchema: XTools.schemas.getUserTimeline,
+    outputSchema: XTools.outputSchemas.getUserTimeline,
+    appOnly: true,
+    handler: (tools, params) => tools.getUserTimeline(params)
+  }),
+  defineTool({
+    name: 'search_tweets',
+    description: 'Search for tweets by keywords, hashtags, or phrases',
+    inputSchema: XTools.schemas.searchTweets,
+    outputSchema: XTools.outputSchemas.searchTweets,
+    appOnly: true,
+    handler: (tools, params) => tools.searchTweets(params)
+  }),
+  defineTool({
+    name: 'advanced_search',
+    description: 'Search tweets with structured fields (authors, mentions, hashtags, media, links, replies, retweets, language, exclusions, time window) compiled into X query syntax, optionally across the full archive',
+    inputSchema: XTools.schemas.advancedSearch,
+    outputSchema: XTools.outputSchemas.advancedSearch,
+    appOnly: true,
+    handler: (tools, params) => tools.advancedSearch(params)
+  }),
+  defineTool({
+    name: 'get_tweet_counts',
+    description: 'Count tweets matching a search query per minute, hour or day, to see how much a topic is being discussed without fetching the tweets',
+    inputSchema: XTools.schemas.getTweetCounts,
+    outputSchema: XTools.outputSchemas.getTweetCounts,
+    appOnly: true,
+    handler: (tools, params) => tools.getTweetCounts(params)
+  }),
+  defineTool({
+    name: 'get_tweets',
+    description: 'Look up to 100 tweets by ID in one request, reporting which were not found, deleted or protected',
+    inputSchema: XTools.schemas.getTweets,
+    outputSchema: XTools.outputSchemas.getTweets,
+    appOnly: true,
+    handler: (tools, params) => tools.getTweets(params)
+  }),
+  defineTool({
+    name: 'get_conversation',
+    description: 'Fetch a full conversation (root tweet and all replies) as a reply tree, given any tweet in it',
+    inputSchema: XTools.schemas.getConversation,
+    outputSchema: XTools.outputSchemas.getConversation,
+    appOnly: true,
+    handler: (tools, params) => tools.getConversation(params)
+  }),
+  defineTool({
+    name: 'list_accounts',
+    description: 'List the configured X account profiles, which of them are authenticated, and their handles',
+    inputSchema: XTools.schemas.listAccounts,
+    outputSchema: XTools.outputSchemas.listAccounts,
+    handler: (tools, params) => tools.listAccounts(params)
+  }),
+  defineTool({
+    name: 'get_rate_limit_status',
+    description: 'Show remaining X API rate limit budgets and reset times for the endpoints used so far',
+    inputSchema: XTools.schemas.getRateLimitStatus,
+    outputSchema: XTools.outputSchemas.getRateLimitStatus,
+    appOnly: true,
+    handler: (tools, params) => tools.getRateLimitStatus(params)
+  }),
+  defineTool({
+    name: 'clear_cache',
+    description: 'Clear cached X API responses, for all accounts or one account, and optionally only one kind of response',
+    inputSchema: XTools.schemas.clearCache,
+    outputSchema: XTools.outputSchemas.clearCache,
+    appOnly: true,
+    handler: (tools, params) => tools.clearCache(params)
+  }),
+  defineTool({
+    name: 'get_user_followers',
+    description: 'Fetch a list of users following the specified account',
+    inputSchema: XTools.schemas.getUserFollowers,
+    outputSchema: XTools.outputSchemas.getUserFollowers,
+    appOnly: true,
+    requiredScopes: ['follows.read'],
+    handler: (tools, params) => tools.getUserFollowers(params)
+  }),
+  defineTool({
+    name: 'get_user_following',
+    description: 'Fetch a list of users that the specified account follows',
+    inputSchema: XTools.schemas.getUserFollowing,
+    outputSchema: XTools.outputSchemas.getUserFollowing,
+    appOnly: true,
+    requiredScopes: ['follows.read'],
+    handler: (tools, params) => tools.getUserFollowing(params)
+  }),
+  
+  // Relationship Operations
+  defineTool({
+    name: 'manage_follow',
+    description: 'Follow or unfollow a user. Following a protected account sends a follow request',
+    inputSchema: XTools.schemas.manageFollow,
+    outputSchema: XTools.outputSchemas.manageFollow,
+    requiredScopes: ['follows.write'],
+    handler: (tools, params) => tools.manageFollow(params)
+  }),
+  defineTool({
+    name: 'manage_mute',
+    description: 'Mute or unmute a user',
+    inputSchema: XTools.schemas.manageMute,
+    outputSchema: XTools.outputSchemas.manageMute,
+    requiredScopes: ['mute.write'],
+    handler: (tools, params) => tools.manageMute(params)
+  }),
+  defineTool({
+    name: 'manage_block',
+    description: 'Block or unblock a user',
+    inputSchema: XTools.schemas.manageBlock,
+    outputSchema: XTools.outputSchemas.manageBlock,
+    requiredScopes: ['block.write'],
+    handler: (tools, params) => tools.manageBlock(params)
+  }),
+  defineTool({
+    name: 'get_my_muted',
+    description: 'Fetch the accounts you have muted',
+    inputSchema: XTools.schemas.getMyMuted,
+    outputSchema: XTools.outputSchemas.getMyMuted,
+    requiredScopes: ['mute.read'],
+    handler: (tools, params) => tools.getMyMuted(params)
+  }),
+  defineTool({
+    name: 'get_my_blocked',
+    description: 'Fetch the accounts you have blocked',
+    inputSchema: XTools.schemas.getMyBlocked,
+    outputSchema: XTools.outputSchemas.getMyBlocked,
+    requiredScopes: ['block.read'],
+    handler: (tools, params) => tools.getMyBlocked(params)
+  }),
+  defineTool({
+    name: 'get_relationship',
+    description: 'Show how the logged-in account (or the one chosen with `account`) relates to another user: whether each follows the other, pending follow requests, and whether it mutes or blocks them. One side is always the logged-in account; the relationship between two other users cannot be looked up',
+    inputSchema: XTools.schemas.getRelationship,
+    outputSchema: XTools.outputSchemas.getRelationship,
+    requiredScopes: ['follows.read', 'mute.read', 'block.read'],
+    handler: (tools, params) => tools.getRelationship(params)
+  }),
+  
+  // Personal Operations
+  defineTool({
+    name: 'get_my_profile',
+    description: 'Get your authenticated X/Twitter profile information',
+    inputSchema: XTools.schemas.getMyProfile,
+    outputSchema: XTools.outputSchemas.getMyProfile,
+    handler: (tools, params) => tools.getMyProfile(params)
+  }),
+  defineTool({
+    name: 'get_my_timeline',
+    description: 'Get your home timeline tweets',
+    inputSchema: XTools.schemas.getMyTimeline,
+    outputSchema: XTools.outputSchemas.getMyTimeline,
+    handler: (tools, params) => tools.getMyTimeline(params)
+  }),
+  
+  // Bookmark Operations
+  defineTool({
+    name: 'get_my_bookmarks',
+    description: 'Fetch your bookmarked tweets',
+    inputSchema: XTools.schemas.getMyBookmarks,
+    outputSchema: XTools.outputSchemas.getMyBookmarks,
+    requiredScopes: ['bookmark.read'],
+    handler: (tools, params) => tools.getMyBookmarks(params)
+  }),
+  defineTool({
+    name: 'manage_bookmark',
+    description: 'Add or remove a tweet bookmark',
+    inputSchema: XTools.schemas.manageBookmark,
+    outputSchema: XTools.outputSchemas.manageBookmark,
+    requiredScopes: ['bookmark.write'],
+    handler: (tools, params) => tools.manageBookmark(params)
+  }),
+  
+  // Like Operations
+  defineTool({
+    name: 'get_my_likes',
+    description: 'Fetch your liked tweets',
+    inputSchema: XTools.schemas.getMyLikes,
+    outputSchema: XTools.outputSchemas.getMyLikes,
+    requiredScopes: ['like.read'],
+    handler: (tools, params) => tools.getMyLikes(params)
+  }),
+  defineTool({
+    name: 'manage_like',
+    description: 'Like or unlike a tweet',
+    inputSchema: XTools.schemas.manageLike,
+    outputSchema: XTools.outputSchemas.manageLike,
+    requiredScopes: ['like.write'],
+    handler: (tools, params) => tools.manageLike(params)
+  }),
+  
+  // Retweet Operations
+  defineTool({
+    name: 'manage_retweet',
+    description: 'Retweet a tweet or undo a retweet',
+    inputSchema: XTools.schemas.manageRetweet,
+    outputSchema: XTools.outputSchemas.manageRetweet,
+    requiredScopes: ['tweet.write'],
+    handler: (tools, params) => tools.manageRetweet(params)
+  }),
+  
+  // Engagement Operations
+  defineTool({
+    name: 'get_retweeters',
+    description: 'Fetch the users who retweeted a tweet',
+    inputSchema: XTools.schemas.getRetweeters,
+    outputSchema: XTools.outputSchemas.getRetweeters,
+    appOnly: true,
+    handler: (tools, params) => tools.getRetweeters(params)
+  }),
+  defineTool({
+    name: 'get_liking_users',
+    description: 'Fetch the users who liked a tweet',
+    inputSchema: XTools.schemas.getLikingUsers,
+    outputSchema: XTools.outputSchemas.getLikingUsers,
+    appOnly: true,
+    requiredScopes: ['like.read'],
+    handler: (tools, params) => tools.getLikingUsers(params)
+  }),
+  defineTool({
+    name: 'get_quote_tweets',
+    description: 'Fetch the tweets that quote a tweet',
+    inputSchema: XTools.schemas.getQuoteTweets,
+    outputSchema: XTools.outputSchemas.getQuoteTweets,
+    appOnly: true,
+    handler: (tools, params) => tools.getQuoteTweets(params)
+  }),
+  
+  // Publishing Operations
+  defineTool({
+    name: 'create_tweet',
+    description: 'Publish a new tweet from your account, optionally with images, a GIF or a video',
+    inputSchema: XTools.schemas.createTweet,
+    outputSchema: XTools.outputSchemas.createTweet,
+    requiredScopes: ['tweet.write'],
+    handler: (tools, params) => tools.createTweet(params)
+  }),
+  defineTool({
+    name: 'reply_to_tweet',
+    description: 'Reply to an existing tweet from your account',
+    inputSchema: XTools.schemas.replyToTweet,
+    outputSchema: XTools.outputSchemas.replyToTweet,
+    requiredScopes: ['tweet.write'],
+    handler: (tools, params) => tools.replyToTweet(params)
+  }),
+  defineTool({
+    name: 'quote_tweet',
+    description: 'Quote a tweet with your own comment, optionally with media',
+    inputSchema: XTools.schemas.quoteTweet,
+    outputSchema: XTools.outputSchemas.quoteTweet,
+    requiredScopes: ['tweet.write'],
+    handler: (tools, params) => tools.quoteTweet(params)
+  }),
+  defineTool({
+    name: 'post_thread',
+    description: 'Publish a thread where each tweet replies to the previous one. Pass either an ordered list of tweets or one long text to split automatically',
+    inputSchema: XTools.schemas.postThread,
+    outputSchema: XTools.outputSchemas.postThread,
+    requiredScopes: ['tweet.write'],
+    handler: (tools, params) => tools.postThread(params)
+  }),
+  defineTool({
+    name: 'delete_tweet',
+    description: 'Delete one of your tweets',
+    inputSchema: XTools.schemas.deleteTweet,
+    outputSchema: XTools.outputSchemas.deleteTweet,
+    requiredScopes: ['tweet.write'],
+    handler: (tools, params) => tools.deleteTweet(params)
+  }),
+  
+  // Direct Message Operations
+  defineTool({
+    name: 'list_dm_conversations',
+    description: 'List your recent DM conversations with their participants and latest message',
+    inputSchema: XTools.schemas.listDmConversations,
+    outputSchema: XTools.outputSchemas.listDmConversations,
+    requiredScopes: ['dm.read'],
+    handler: (tools, params) => tools.listDmConversations(params)
+  }),
+  defineTool({
+    name: 'get_dm_conversation',
+    description: 'Read the messages of a DM conversation, by the other participant\'s username or by conversation ID',
+    inputSchema: XTools.schemas.getDmConversation,
+    outputSchema: XTools.outputSchemas.getDmConversation,
+    requiredScopes: ['dm.read'],
+    handler: (tools, params) => tools.getDmConversation(params)
+  }),
+  defineTool({
+    name: 'send_dm',
+    description: 'Send a DM. Clients that support elicitation ask the user to confirm it before it is sent. Otherwise the first call only returns a draft and a confirmation token; show the draft to the user and call again with only the token once they approve it',
+    inputSchema: XTools.schemas.sendDm,
+    outputSchema: XTools.outputSchemas.sendDm,
+    requiredScopes: ['dm.write'],
+    handler: (tools, params, context) => tools.sendDm(params, context)
+  }),
+  
+  // List Operations
+  defineTool({
+    name: 'get_my_lists',
+    description: 'Get your X/Twitter lists',
+    inputSchema: XTools.schemas.getMyLists,
+    outputSchema: XTools.outputSchemas.getMyLists,
+    requiredScopes: ['list.read'],
+    handler: (tools, params) => tools.getMyLists(params)
+  }),
+  defineTool({
+    name: 'get_list',
+    description: 'Get details of a specific X/Twitter list',
+    inputSchema: XTools.schemas.getList,
+    outputSchema: XTools.outputSchemas.getList,
+    requiredScopes: ['list.read'],
+    handler: (tools, params) => tools.getList(params)
+  }),
+  defineTool({
+    name: 'get_list_tweets',
+    description: 'Get tweets from a specific X/Twitter list',
+    inputSchema: XTools.schemas.getListTweets,
+    outputSchema: XTools.outputSchemas.getListTweets,
+    requiredScopes: ['list.read'],
+    handler: (tools, params) => tools.getListTweets(params)
+  }),
+  defineTool({
+    name: 'get_list_members',
+    description: 'Get members of a specific X/Twitter list',
+    inputSchema: XTools.schemas.getListMembers,
+    outputSchema: XTools.outputSchemas.getListMembers,
+    requiredScopes: ['list.read'],
+    handler: (tools, params) => tools.getListMembers(params)
+  }),
+  defineTool({
+    name: 'create_list',
+    description: 'Create a new X/Twitter list',
+    inputSchema: XTools.schemas.createList,
+    outputSchema: XTools.outputSchemas.createList,
+    requiredScopes: ['list.write'],
+    handler: (tools, params) => tools.createList(params)
+  }),
+  defineTool({
+    name: 'update_list',
+    description: 'Update an existing X/Twitter list',
+    inputSchema: XTools.schemas.updateList,
+    outputSchema: XTools.outputSchemas.updateList,
+    requiredScopes: ['list.write'],
+    handler: (tools, params) => tools.updateList(params)
+  }),
+  defineTool({
+    name: 'delete_list',
+    description: 'Delete an X/Twitter list',
+    inputSchema: XTools.schemas.deleteList,
+    outputSchema: XTools.outputSchemas.deleteList,
+    requiredScopes: ['list.write'],
+    handler: (tools, params) => tools.deleteList(params)
+  }),
+  defineTool({
+    name: 'manage_list_member',
+    description: 'Add or remove a member from an X/Twitter list',
+    inputSchema: XTools.schemas.manageListMember,
+    outputSchema: XTools.outputSchemas.manageListMember,
+    requiredScopes: ['list.write'],
+    handler: (tools, params) => tools.manageListMember(params)
+  }),
+  
+  // Authentication Operations
+  defineTool({
+    name: 'auth_status',
+    description: 'Show whether an account is authenticated, as which handle, its granted scopes, token expiry and whether it can be refreshed',
+    inputSchema: XTools.schemas.authStatus,
+    outputSchema: XTools.outputSchemas.authStatus,
+    availableWithoutAuth: true,
+    handler: (tools, params) => tools.authStatus(params)
+  }),
+  defineTool({
+    name: 'start_auth',
+    description: 'Start authenticating an account with X: returns the OAuth 2.0 authorization URL to open in a browser',
+    inputSchema: XTools.schemas.startAuth,
+    outputSchema: XTools.outputSchemas.startAuth,
+    availableWithoutAuth: true,
+    handler: (tools, params) => tools.startAuth(params)
+  }),
+  defineTool({
+    name: 'complete_auth',
+    description: 'Finish authenticating an account with the URL the browser was redirected to after start_auth',
+    inputSchema: XTools.schemas.completeAuth,
+    outputSchema: XTools.outputSchemas.completeAuth,
+    availableWithoutAuth: true,
+    handler: (tools, params) => tools.completeAuth(params)
+  })
+];
+
+const toolsByName = new Map(toolDefinitions.map(tool => [tool.name, tool]));
+
+export function getToolDefinition(name: string): ToolDefinition | undefined {
+  return toolsByName.get(name);
+}
+
+/**
+ * Tool metadata in the shape of the MCP `tools/list` response.
+ */
+export function listToolMetadata(tools: ToolDefinition[] = toolDefinitions) {
+  return tools.map(tool => ({
+    name: tool.name,
+    description: tool.description,
+    inputSchema: toJsonSchema(tool.inputSchema) as { type: 'object'; [key: string]: unknown },
+    outputSchema: toJsonSchema(tool.outputSchema) as { type: 'object'; [key: string]: unknown }
+  }));
+}
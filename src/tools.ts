@@ -1,640 +1,2015 @@
 import { z } from 'zod';
-import { TwitterClient } from './twitter-client.js';
+import { randomUUID } from 'crypto';
+import { TwitterClient, AuthMode, DmTarget, MAX_PAGINATED_RESULTS, MAX_BATCH_LOOKUP } from './twitter-client.js';
+import {
+  OAuth2AuthManager,
+  getDefaultAccount,
+  validateAccountName,
+  parseAuthorizationResponse,
+  resolveScopes,
+  getMissingScopes
+} from './auth-manager.js';
+import { validateTweetText, splitIntoThread } from './tweet-text.js';
+import { MediaFile, loadMediaFile, loadMediaFiles } from './media.js';
+import { CACHE_MODES, CACHE_RESOURCES, getResponseCache } from './response-cache.js';
+import { buildConversationTree, countConversationReplies, formatConversationTree } from './conversation.js';
+import { buildSearchQuery, validateSearchQuery, validateSearchWindow } from './search-query.js';
+import { MAX_DM_LENGTH, formatDmConversations, formatDmMessages, summarizeDmConversations, toDmMessages } from './direct-messages.js';
+import {
+  OutputFormat,
+  outputFormatSchema,
+  tweetOutputSchema,
+  postedTweetOutputSchema,
+  userOutputSchema,
+  listOutputSchema,
+  conversationNodeSchema,
+  rateLimitBudgetOutputSchema,
+  tweetPageOutputSchema,
+  userPageOutputSchema,
+  lookupErrorOutputSchema,
+  dmMessageOutputSchema,
+  dmConversationOutputSchema,
+  actionOutputSchema,
+  toTweetOutputs,
+  toPostedTweetOutput,
+  toUserOutput,
+  toListOutput,
+  toolResult,
+  toolError
+} from './structured-output.js';
+
+// How long a start_auth authorization can be completed
+const PENDING_AUTH_TTL_MS = 10 * 60 * 1000;
+
+interface PendingAuth {
+  codeVerifier: string;
+  state: string;
+  expiresAt: number;
+}
+
+// How long a send_dm draft can be confirmed
+const PENDING_DM_TTL_MS = 10 * 60 * 1000;
+
+// A DM drafted by send_dm; it is only sent once its confirmation token is passed back
+interface PendingDm {
+  account: string;
+  target: DmTarget;
+  text?: string;
+  media?: MediaFile;
+  expiresAt: number;
+}
+
+// What a tool call can do beyond its parameters, depending on the connected client
+export interface ToolContext {
+  // Asks the user directly, outside the model's control; set when the client supports elicitation
+  confirm?: (message: string) => Promise<boolean>;
+}
 
 export class XTools {
-  private twitterClient: TwitterClient;
+  private defaultAccount: string;
+  private twitterClients = new Map<string, TwitterClient>();
+  private pendingAuth = new Map<string, PendingAuth>();
+  private pendingDms = new Map<string, PendingDm>();
   
   constructor() {
     try {
-      this.twitterClient = new TwitterClient();
+      this.defaultAccount = getDefaultAccount();
+      this.getClient();
     } catch (error) {
       throw new Error(`Failed to initialize Twitter client: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
   
+  // One client per account profile, so each keeps its own tokens and rate limit budgets
+  private getClient(account: string = this.defaultAccount): TwitterClient {
+    const name = validateAccountName(account);
+    let client = this.twitterClients.get(name);
+    if (!client) {
+      client = new TwitterClient(name);
+      this.twitterClients.set(name, client);
+    }
+    return client;
+  }
+  
+  private static mediaItemSchema = z.object({
+    path: z.string().min(1).optional().describe('Local file path of the image, GIF or video'),
+    data: z.string().min(1).optional().describe('Base64 encoded file contents (raw or data URL). In HTTP mode requests are limited to 4MB, so larger GIFs and videos must be sent by path inside the server\'s X_MEDIA_DIR'),
+    altText: z.string().max(1000).optional().describe('Alt text describing the media (max 1000 characters)')
+  });
+  
+  private static mediaSchema = z.array(XTools.mediaItemSchema).max(4).optional().describe('Media attachments: up to 4 images, or a single GIF or video');
+  
+  private static accountSchema = z.string().min(1).optional().describe('Account profile to act as (see list_accounts). Defaults to the default account');
+  
+  private static cursorSchema = z.string().min(1).optional().describe('Pagination cursor returned by a previous call, to continue where it left off');
+  
+  private static cacheSchema = z.enum(CACHE_MODES).default('use').describe('"use" serves a cached response while it is fresh, "refresh" fetches and updates the cache, "bypass" skips the cache');
+  
   // Schema definitions for all tool inputs
   static schemas = {
     // Profile and User Operations
     getUserProfile: z.object({
-      username: z.string().min(1).describe('X/Twitter username (without @)')
+      username: z.string().min(1).describe('X/Twitter username (without @)'),
+      cache: XTools.cacheSchema,
+      account: XTools.accountSchema,
+      output_format: outputFormatSchema
+    }),
+    
+    getMyProfile: z.object({
+      cache: XTools.cacheSchema,
+      account: XTools.accountSchema,
+      output_format: outputFormatSchema
     }),
     
-    getMyProfile: z.object({}),
+    getUsers: z.object({
+      usernames: z.array(z.string().min(1)).max(MAX_BATCH_LOOKUP).optional().describe('Usernames to look up (without @)'),
+      ids: z.array(z.string().min(1)).max(MAX_BATCH_LOOKUP).optional().describe('Numeric user IDs to look up'),
+      cache: XTools.cacheSchema,
+      account: XTools.accountSchema,
+      output_format: outputFormatSchema
+    }),
+    
+    getTweets: z.object({
+      ids: z.array(z.string().min(1)).min(1).max(MAX_BATCH_LOOKUP).describe('Tweet IDs to look up (up to 100)'),
+      cache: XTools.cacheSchema,
+      account: XTools.accountSchema,
+      output_format: outputFormatSchema
+    }),
     
     // Timeline Operations
     getUserTimeline: z.object({
       username: z.string().min(1).describe('X/Twitter username (without @)'),
-      limit: z.number().min(1).max(100).default(10).describe('Number of tweets to fetch (1-100)')
+      limit: z.number().int().min(1).max(MAX_PAGINATED_RESULTS).default(10).describe('Number of tweets to fetch (1-1000, more than one page is fetched automatically)'),
+      cursor: XTools.cursorSchema,
+      cache: XTools.cacheSchema,
+      account: XTools.accountSchema,
+      output_format: outputFormatSchema
     }),
     
     getMyTimeline: z.object({
-      limit: z.number().min(1).max(100).default(10).describe('Number of timeline tweets to fetch (1-100)')
+      limit: z.number().int().min(1).max(MAX_PAGINATED_RESULTS).default(10).describe('Number of timeline tweets to fetch (1-1000, more than one page is fetched automatically)'),
+      cursor: XTools.cursorSchema,
+      cache: XTools.cacheSchema,
+      account: XTools.accountSchema,
+      output_format: outputFormatSchema
     }),
     
     // Search Operations
     searchTweets: z.object({
       query: z.string().min(1).describe('Search query (keywords, hashtags, etc.)'),
-      limit: z.number().min(1).max(100).default(10).describe('Number of tweets to fetch (1-100)')
+      limit: z.number().int().min(1).max(MAX_PAGINATED_RESULTS).default(10).describe('Number of tweets to fetch (1-1000, more than one page is fetched automatically)'),
+      cursor: XTools.cursorSchema,
+      cache: XTools.cacheSchema,
+      account: XTools.accountSchema,
+      output_format: outputFormatSchema
+    }),
+    
+    advancedSearch: z.object({
+      keywords: z.string().optional().describe('Words to search for; may also contain raw query operators'),
+      exact_phrase: z.string().optional().describe('Phrase that must appear exactly'),
+      hashtags: z.array(z.string()).optional().describe('Hashtags, any of which must appear (with or without #)'),
+      from: z.array(z.string()).optional().describe('Usernames, any of which must be the author (with or without @)'),
+      to: z.array(z.string()).optional().describe('Usernames, any of which must be replied to'),
+      mentions: z.array(z.string()).optional().describe('Usernames, any of which must be mentioned'),
+      has_media: z.boolean().optional().describe('true: only tweets with media, false: only tweets without'),
+      has_links: z.boolean().optional().describe('true: only tweets with links, false: only tweets without'),
+      is_reply: z.boolean().optional().describe('true: only replies, false: no replies'),
+      is_retweet: z.boolean().optional().describe('true: only retweets, false: no retweets'),
+      lang: z.string().optional().describe('Language code, e.g. "en"'),
+      exclude: z.array(z.string()).optional().describe('Words or phrases that must not appear'),
+      min_likes: z.number().int().min(0).optional().describe('Minimum like count, applied to the fetched results'),
+      min_retweets: z.number().int().min(0).optional().describe('Minimum retweet count, applied to the fetched results'),
+      min_replies: z.number().int().min(0).optional().describe('Minimum reply count, applied to the fetched results'),
+      start_time: z.string().datetime({ offset: true }).optional().describe('Oldest tweet time (ISO 8601)'),
+      end_time: z.string().datetime({ offset: true }).optional().describe('Newest tweet time (ISO 8601), at least 10 seconds ago'),
+      sort_order: z.enum(['recency', 'relevancy']).default('recency').describe('Order of the results'),
+      full_archive: z.boolean().default(false).describe('Search all tweets instead of the last 7 days (needs Pro or Enterprise access)'),
+      limit: z.number().int().min(1).max(MAX_PAGINATED_RESULTS).default(10).describe('Number of tweets to fetch (1-1000, more than one page is fetched automatically)'),
+      cursor: XTools.cursorSchema,
+      cache: XTools.cacheSchema,
+      account: XTools.accountSchema,
+      output_format: outputFormatSchema
+    }),
+    
+    getTweetCounts: z.object({
+      query: z.string().min(1).describe('Search query whose matching tweets are counted'),
+      granularity: z.enum(['minute', 'hour', 'day']).default('hour').describe('Size of each time bucket'),
+      start_time: z.string().datetime({ offset: true }).optional().describe('Start of the series (ISO 8601)'),
+      end_time: z.string().datetime({ offset: true }).optional().describe('End of the series (ISO 8601), at least 10 seconds ago'),
+      full_archive: z.boolean().default(false).describe('Count all tweets instead of the last 7 days (needs Pro or Enterprise access)'),
+      cursor: XTools.cursorSchema.describe('Full-archive only: cursor returned by a previous call, to continue with the rest of a long time window'),
+      cache: XTools.cacheSchema,
+      account: XTools.accountSchema,
+      output_format: outputFormatSchema
+    }),
+    
+    getConversation: z.object({
+      tweetId: z.string().min(1).describe('ID of any tweet in the conversation'),
+      limit: z.number().int().min(1).max(500).default(100).describe('Maximum number of replies to fetch (1-500)'),
+      cache: XTools.cacheSchema,
+      account: XTools.accountSchema,
+      output_format: outputFormatSchema
+    }),
+    
+    // Account Operations
+    listAccounts: z.object({
+      output_format: outputFormatSchema
+    }),
+    
+    // Rate Limit Operations
+    getRateLimitStatus: z.object({
+      account: XTools.accountSchema,
+      output_format: outputFormatSchema
+    }),
+    
+    // Cache Operations
+    clearCache: z.object({
+      account: z.string().min(1).optional().describe('Only clear responses cached for this account profile. Clears all accounts when omitted'),
+      resource: z.enum(CACHE_RESOURCES).optional().describe('Only clear this kind of response'),
+      output_format: outputFormatSchema
+    }),
+    
+    // Authentication Operations
+    authStatus: z.object({
+      account: XTools.accountSchema,
+      output_format: outputFormatSchema
+    }),
+    
+    startAuth: z.object({
+      scopes: z.string().min(1).optional().describe('Scopes to request: read-only, standard, full (default) or a comma-separated list of scopes'),
+      account: XTools.accountSchema,
+      output_format: outputFormatSchema
+    }),
+    
+    completeAuth: z.object({
+      callbackUrl: z.string().min(1).describe('The URL the browser was redirected to after authorizing (or just its code parameter)'),
+      account: XTools.accountSchema,
+      output_format: outputFormatSchema
     }),
     
     // Social Network Operations
     getUserFollowers: z.object({
       username: z.string().min(1).describe('X/Twitter username (without @)'),
-      limit: z.number().min(1).max(1000).default(10).describe('Number of followers to fetch (1-1000)')
+      limit: z.number().int().min(1).max(MAX_PAGINATED_RESULTS).default(10).describe('Number of followers to fetch (1-1000, more than one page is fetched automatically)'),
+      cursor: XTools.cursorSchema,
+      cache: XTools.cacheSchema,
+      account: XTools.accountSchema,
+      output_format: outputFormatSchema
     }),
     
     getUserFollowing: z.object({
       username: z.string().min(1).describe('X/Twitter username (without @)'),
-      limit: z.number().min(1).max(1000).default(10).describe('Number of following accounts to fetch (1-1000)')
+      limit: z.number().int().min(1).max(MAX_PAGINATED_RESULTS).default(10).describe('Number of following accounts to fetch (1-1000, more than one page is fetched automatically)'),
+      cursor: XTools.cursorSchema,
+      cache: XTools.cacheSchema,
+      account: XTools.accountSchema,
+      output_format: outputFormatSchema
+    }),
+    
+    // Relationship Operations
+    manageFollow: z.object({
+      username: z.string().min(1).describe('X/Twitter username (without @)'),
+      action: z.enum(['follow', 'unfollow']).describe('Action to perform: follow or unfollow'),
+      account: XTools.accountSchema,
+      output_format: outputFormatSchema
+    }),
+    
+    manageMute: z.object({
+      username: z.string().min(1).describe('X/Twitter username (without @)'),
+      action: z.enum(['mute', 'unmute']).describe('Action to perform: mute or unmute'),
+      account: XTools.accountSchema,
+      output_format: outputFormatSchema
+    }),
+    
+    manageBlock: z.object({
+      username: z.string().min(1).describe('X/Twitter username (without @)'),
+      action: z.enum(['block', 'unblock']).describe('Action to perform: block or unblock'),
+      account: XTools.accountSchema,
+      output_format: outputFormatSchema
+    }),
+    
+    getMyMuted: z.object({
+      limit: z.number().int().min(1).max(MAX_PAGINATED_RESULTS).default(10).describe('Number of muted accounts to fetch (1-1000, more than one page is fetched automatically)'),
+      cursor: XTools.cursorSchema,
+      cache: XTools.cacheSchema,
+      account: XTools.accountSchema,
+      output_format: outputFormatSchema
+    }),
+    
+    getMyBlocked: z.object({
+      limit: z.number().int().min(1).max(MAX_PAGINATED_RESULTS).default(10).describe('Number of blocked accounts to fetch (1-1000, more than one page is fetched automatically)'),
+      cursor: XTools.cursorSchema,
+      cache: XTools.cacheSchema,
+      account: XTools.accountSchema,
+      output_format: outputFormatSchema
+    }),
+    
+    getRelationship: z.object({
+      username: z.string().min(1).describe('X/Twitter username (without @) of the other user. The first side is always the logged-in account'),
+      cache: XTools.cacheSchema,
+      account: XTools.accountSchema,
+      output_format: outputFormatSchema
     }),
     
     // Bookmark Operations
     getMyBookmarks: z.object({
-      limit: z.number().min(1).max(100).default(10).describe('Number of bookmarks to fetch (1-100)')
+      limit: z.number().int().min(1).max(MAX_PAGINATED_RESULTS).default(10).describe('Number of bookmarks to fetch (1-1000, more than one page is fetched automatically)'),
+      cursor: XTools.cursorSchema,
+      cache: XTools.cacheSchema,
+      account: XTools.accountSchema,
+      output_format: outputFormatSchema
     }),
     
     manageBookmark: z.object({
       tweetId: z.string().min(1).describe('Tweet ID to bookmark/unbookmark'),
-      action: z.enum(['add', 'remove']).describe('Action to perform: add or remove bookmark')
+      action: z.enum(['add', 'remove']).describe('Action to perform: add or remove bookmark'),
+      account: XTools.accountSchema,
+      output_format: outputFormatSchema
     }),
     
     // Like Operations
     getMyLikes: z.object({
-      limit: z.number().min(1).max(100).default(10).describe('Number of liked tweets to fetch (1-100)')
+      limit: z.number().int().min(1).max(MAX_PAGINATED_RESULTS).default(10).describe('Number of liked tweets to fetch (1-1000, more than one page is fetched automatically)'),
+      cursor: XTools.cursorSchema,
+      cache: XTools.cacheSchema,
+      account: XTools.accountSchema,
+      output_format: outputFormatSchema
     }),
     
     manageLike: z.object({
       tweetId: z.string().min(1).describe('Tweet ID to like/unlike'),
-      action: z.enum(['like', 'unlike']).describe('Action to perform: like or unlike')
+      action: z.enum(['like', 'unlike']).describe('Action to perform: like or unlike'),
+      account: XTools.accountSchema,
+      output_format: outputFormatSchema
+    }),
+    
+    // Retweet Operations
+    manageRetweet: z.object({
+      tweetId: z.string().min(1).describe('Tweet ID to retweet or undo the retweet of'),
+      action: z.enum(['retweet', 'unretweet']).describe('Action to perform: retweet or unretweet'),
+      account: XTools.accountSchema,
+      output_format: outputFormatSchema
+    }),
+    
+    // Engagement Operations
+    getRetweeters: z.object({
+      tweetId: z.string().min(1).describe('Tweet ID whose retweeters to fetch'),
+      limit: z.number().int().min(1).max(MAX_PAGINATED_RESULTS).default(10).describe('Number of users to fetch (1-1000, more than one page is fetched automatically)'),
+      cursor: XTools.cursorSchema,
+      cache: XTools.cacheSchema,
+      account: XTools.accountSchema,
+      output_format: outputFormatSchema
+    }),
+    
+    getLikingUsers: z.object({
+      tweetId: z.string().min(1).describe('Tweet ID whose liking users to fetch'),
+      limit: z.number().int().min(1).max(MAX_PAGINATED_RESULTS).default(10).describe('Number of users to fetch (1-1000, more than one page is fetched automatically)'),
+      cursor: XTools.cursorSchema,
+      cache: XTools.cacheSchema,
+      account: XTools.accountSchema,
+      output_format: outputFormatSchema
+    }),
+    
+    getQuoteTweets: z.object({
+      tweetId: z.string().min(1).describe('Tweet ID whose quote tweets to fetch'),
+      limit: z.number().int().min(1).max(MAX_PAGINATED_RESULTS).default(10).describe('Number of quote tweets to fetch (1-1000, more than one page is fetched automatically)'),
+      cursor: XTools.cursorSchema,
+      cache: XTools.cacheSchema,
+      account: XTools.accountSchema,
+      output_format: outputFormatSchema
+    }),
+    
+    // Publishing Operations
+    createTweet: z.object({
+      text: z.string().min(1).describe('Tweet text (max 280 weighted characters)'),
+      media: XTools.mediaSchema,
+      account: XTools.accountSchema,
+      output_format: outputFormatSchema
+    }),
+    
+    replyToTweet: z.object({
+      tweetId: z.string().min(1).describe('Tweet ID to reply to'),
+      text: z.string().min(1).describe('Reply text (max 280 weighted characters)'),
+      media: XTools.mediaSchema,
+      account: XTools.accountSchema,
+      output_format: outputFormatSchema
+    }),
+    
+    quoteTweet: z.object({
+      tweetId: z.string().min(1).describe('Tweet ID to quote'),
+      text: z.string().min(1).describe('Your comment on the quoted tweet (max 280 weighted characters)'),
+      media: XTools.mediaSchema,
+      account: XTools.accountSchema,
+      output_format: outputFormatSchema
+    }),
+    
+    deleteTweet: z.object({
+      tweetId: z.string().min(1).describe('ID of your tweet to delete'),
+      account: XTools.accountSchema,
+      output_format: outputFormatSchema
+    }),
+    
+    postThread: z.object({
+      tweets: z.array(z.string().min(1)).min(1).max(25).optional().describe('Ordered tweet texts to post as a thread'),
+      text: z.string().min(1).optional().describe('Long text to split automatically into a thread at sentence boundaries'),
+      numbered: z.boolean().default(true).describe('Append "1/N" numbering when splitting text'),
+      rollbackOnFailure: z.boolean().default(false).describe('Delete already posted tweets if a later tweet fails'),
+      account: XTools.accountSchema,
+      output_format: outputFormatSchema
+    }),
+    
+    // Direct Message Operations
+    listDmConversations: z.object({
+      limit: z.number().int().min(1).max(MAX_PAGINATED_RESULTS).default(100).describe('Number of recent messages to group into conversations (1-1000, more than one page is fetched automatically)'),
+      cursor: XTools.cursorSchema,
+      cache: XTools.cacheSchema,
+      account: XTools.accountSchema,
+      output_format: outputFormatSchema
+    }),
+    
+    getDmConversation: z.object({
+      username: z.string().min(1).optional().describe('Username (without @) of the other participant of a one-to-one conversation'),
+      conversationId: z.string().min(1).optional().describe('DM conversation ID, e.g. of a group conversation'),
+      limit: z.number().int().min(1).max(MAX_PAGINATED_RESULTS).default(20).describe('Number of messages to fetch, newest first (1-1000, more than one page is fetched automatically)'),
+      cursor: XTools.cursorSchema,
+      cache: XTools.cacheSchema,
+      account: XTools.accountSchema,
+      output_format: outputFormatSchema
+    }),
+    
+    sendDm: z.object({
+      username: z.string().min(1).optional().describe('Username (without @) to message in your one-to-one conversation'),
+      conversationId: z.string().min(1).optional().describe('DM conversation ID to message, e.g. a group conversation'),
+      text: z.string().max(MAX_DM_LENGTH).optional().describe(`Message text (max ${MAX_DM_LENGTH} characters)`),
+      media: XTools.mediaItemSchema.optional().describe('A single image, GIF or video attachment'),
+      confirmationToken: z.string().min(1).optional().describe('Token returned by the drafting call. Pass it alone to send the drafted message'),
+      account: XTools.accountSchema,
+      output_format: outputFormatSchema
     }),
     
     // List Operations
-    getMyLists: z.object({}),
+    getMyLists: z.object({
+      cache: XTools.cacheSchema,
+      account: XTools.accountSchema,
+      output_format: outputFormatSchema
+    }),
     
     getList: z.object({
-      listId: z.string().min(1).describe('List ID to fetch')
+      listId: z.string().min(1).describe('List ID to fetch'),
+      cache: XTools.cacheSchema,
+      account: XTools.accountSchema,
+      output_format: outputFormatSchema
     }),
     
     getListTweets: z.object({
       listId: z.string().min(1).describe('List ID to get tweets from'),
-      limit: z.number().min(1).max(100).default(10).describe('Number of tweets to fetch (1-100)')
+      limit: z.number().int().min(1).max(MAX_PAGINATED_RESULTS).default(10).describe('Number of tweets to fetch (1-1000, more than one page is fetched automatically)'),
+      cursor: XTools.cursorSchema,
+      cache: XTools.cacheSchema,
+      account: XTools.accountSchema,
+      output_format: outputFormatSchema
     }),
     
     getListMembers: z.object({
       listId: z.string().min(1).describe('List ID to get members from'),
-      limit: z.number().min(1).max(100).default(10).describe('Number of members to fetch (1-100)')
+      limit: z.number().int().min(1).max(MAX_PAGINATED_RESULTS).default(10).describe('Number of members to fetch (1-1000, more than one page is fetched automatically)'),
+      cursor: XTools.cursorSchema,
+      cache: XTools.cacheSchema,
+      account: XTools.accountSchema,
+      output_format: outputFormatSchema
     }),
     
     createList: z.object({
       name: z.string().min(1).max(25).describe('List name (max 25 characters)'),
       description: z.string().max(100).optional().describe('List description (max 100 characters)'),
-      private: z.boolean().default(false).describe('Whether the list should be private')
+      private: z.boolean().default(false).describe('Whether the list should be private'),
+      account: XTools.accountSchema,
+      output_format: outputFormatSchema
     }),
     
     updateList: z.object({
       listId: z.string().min(1).describe('List ID to update'),
       name: z.string().min(1).max(25).optional().describe('New list name (max 25 characters)'),
       description: z.string().max(100).optional().describe('New list description (max 100 characters)'),
-      private: z.boolean().optional().describe('Whether the list should be private')
+      private: z.boolean().optional().describe('Whether the list should be private'),
+      account: XTools.accountSchema,
+      output_format: outputFormatSchema
     }),
     
     deleteList: z.object({
-      listId: z.string().min(1).describe('List ID to delete')
+      listId: z.string().min(1).describe('List ID to delete'),
+      account: XTools.accountSchema,
+      output_format: outputFormatSchema
     }),
     
     manageListMember: z.object({
       listId: z.string().min(1).describe('List ID to manage'),
       username: z.string().min(1).describe('Username to add/remove (without @)'),
-      action: z.enum(['add', 'remove']).describe('Action to perform: add or remove member')
+      action: z.enum(['add', 'remove']).describe('Action to perform: add or remove member'),
+      account: XTools.accountSchema,
+      output_format: outputFormatSchema
+    })
+  };
+  
+  // Schema definitions for the structured content each tool returns
+  static outputSchemas = {
+    getUserProfile: z.object({
+      user: userOutputSchema.nullable()
+    }),
+    
+    getMyProfile: z.object({
+      user: userOutputSchema
+    }),
+    
+    getUsers: z.object({
+      users: z.array(userOutputSchema),
+      errors: z.array(lookupErrorOutputSchema)
+    }),
+    
+    getTweets: z.object({
+      tweets: z.array(tweetOutputSchema),
+      errors: z.array(lookupErrorOutputSchema)
+    }),
+    
+    getUserTimeline: tweetPageOutputSchema.extend({
+      username: z.string()
+    }),
+    
+    getMyTimeline: tweetPageOutputSchema,
+    
+    searchTweets: tweetPageOutputSchema.extend({
+      query: z.string()
+    }),
+    
+    advancedSearch: tweetPageOutputSchema.extend({
+      query: z.string().describe('The compiled X search query'),
+      below_min_engagement: z.number().describe('Fetched tweets left out by the minimum engagement filters')
+    }),
+    
+    getTweetCounts: z.object({
+      query: z.string(),
+      granularity: z.enum(['minute', 'hour', 'day']),
+      total_tweet_count: z.number().describe('Total of the returned buckets'),
+      counts: z.array(z.object({
+        start: z.string(),
+        end: z.string(),
+        tweet_count: z.number()
+      })),
+      nextCursor: z.string().optional()
+    }),
+    
+    getConversation: z.object({
+      conversation_id: z.string(),
+      reply_count: z.number(),
+      tree: conversationNodeSchema
+    }),
+    
+    listAccounts: z.object({
+      defaultAccount: z.string(),
+      accounts: z.array(z.object({
+        account: z.string(),
+        isDefault: z.boolean(),
+        authenticated: z.boolean(),
+        username: z.string().optional(),
+        name: z.string().optional(),
+        error: z.string().optional()
+      }))
+    }),
+    
+    getRateLimitStatus: z.object({
+      budgets: z.array(rateLimitBudgetOutputSchema)
+    }),
+    
+    clearCache: z.object({
+      cleared: z.number(),
+      remaining: z.number()
+    }),
+    
+    authStatus: z.object({
+      account: z.string(),
+      authenticated: z.boolean(),
+      username: z.string().optional(),
+      name: z.string().optional(),
+      scopes: z.array(z.string()).optional(),
+      expiresAt: z.string().optional(),
+      refreshAvailable: z.boolean(),
+      authorizationPending: z.boolean()
+    }),
+    
+    startAuth: z.object({
+      account: z.string(),
+      scopes: z.array(z.string()),
+      authorizationUrl: z.string(),
+      redirectUri: z.string(),
+      expiresAt: z.string()
+    }),
+    
+    completeAuth: z.object({
+      account: z.string(),
+      username: z.string(),
+      name: z.string(),
+      scopes: z.array(z.string()).optional()
+    }),
+    
+    getUserFollowers: userPageOutputSchema.extend({
+      username: z.string()
+    }),
+    
+    getUserFollowing: userPageOutputSchema.extend({
+      username: z.string()
+    }),
+    
+    manageFollow: actionOutputSchema.extend({
+      username: z.string(),
+      action: z.enum(['follow', 'unfollow']),
+      pending: z.boolean().describe('A follow request awaits approval by a protected account')
+    }),
+    
+    manageMute: actionOutputSchema.extend({
+      username: z.string(),
+      action: z.enum(['mute', 'unmute'])
+    }),
+    
+    manageBlock: actionOutputSchema.extend({
+      username: z.string(),
+      action: z.enum(['block', 'unblock'])
+    }),
+    
+    getMyMuted: userPageOutputSchema,
+    
+    getMyBlocked: userPageOutputSchema,
+    
+    getRelationship: z.object({
+      source: z.string().describe('Username of your account'),
+      target: userOutputSchema,
+      following: z.boolean(),
+      followed_by: z.boolean(),
+      follow_request_sent: z.boolean(),
+      follow_request_received: z.boolean(),
+      muting: z.boolean(),
+      blocking: z.boolean()
+    }),
+    
+    getMyBookmarks: tweetPageOutputSchema,
+    
+    manageBookmark: actionOutputSchema.extend({
+      tweetId: z.string(),
+      action: z.enum(['add', 'remove'])
+    }),
+    
+    getMyLikes: tweetPageOutputSchema,
+    
+    manageLike: actionOutputSchema.extend({
+      tweetId: z.string(),
+      action: z.enum(['like', 'unlike'])
+    }),
+    
+    manageRetweet: actionOutputSchema.extend({
+      tweetId: z.string(),
+      action: z.enum(['retweet', 'unretweet'])
+    }),
+    
+    getRetweeters: userPageOutputSchema.extend({
+      tweetId: z.string()
+    }),
+    
+    getLikingUsers: userPageOutputSchema.extend({
+      tweetId: z.string()
+    }),
+    
+    getQuoteTweets: tweetPageOutputSchema.extend({
+      tweetId: z.string()
+    }),
+    
+    createTweet: z.object({
+      tweet: postedTweetOutputSchema
+    }),
+    
+    replyToTweet: z.object({
+      inReplyTo: z.string(),
+      tweet: postedTweetOutputSchema
+    }),
+    
+    quoteTweet: z.object({
+      quoted: z.string(),
+      tweet: postedTweetOutputSchema
+    }),
+    
+    deleteTweet: actionOutputSchema.extend({
+      tweetId: z.string()
+    }),
+    
+    postThread: z.object({
+      complete: z.boolean(),
+      total: z.number(),
+      posted: z.array(postedTweetOutputSchema),
+      error: z.string().optional(),
+      rolledBack: z.boolean().optional(),
+      notDeleted: z.array(z.string()).optional()
+    }),
+    
+    listDmConversations: z.object({
+      conversations: z.array(dmConversationOutputSchema),
+      nextCursor: z.string().optional()
+    }),
+    
+    getDmConversation: z.object({
+      messages: z.array(dmMessageOutputSchema),
+      nextCursor: z.string().optional()
+    }),
+    
+    sendDm: z.object({
+      status: z.enum(['pending_confirmation', 'cancelled', 'sent']),
+      recipient: z.string(),
+      text: z.string().optional(),
+      hasMedia: z.boolean(),
+      confirmationToken: z.string().optional(),
+      expiresAt: z.string().optional(),
+      dm_conversation_id: z.string().optional(),
+      dm_event_id: z.string().optional()
+    }),
+    
+    getMyLists: z.object({
+      lists: z.array(listOutputSchema)
+    }),
+    
+    getList: z.object({
+      list: listOutputSchema
+    }),
+    
+    getListTweets: tweetPageOutputSchema.extend({
+      list: listOutputSchema
+    }),
+    
+    getListMembers: userPageOutputSchema.extend({
+      list: listOutputSchema
+    }),
+    
+    createList: z.object({
+      list: listOutputSchema
+    }),
+    
+    updateList: actionOutputSchema.extend({
+      listId: z.string(),
+      name: z.string().optional(),
+      description: z.string().optional(),
+      private: z.boolean().optional()
+    }),
+    
+    deleteList: actionOutputSchema.extend({
+      listId: z.string()
+    }),
+    
+    manageListMember: actionOutputSchema.extend({
+      listId: z.string(),
+      username: z.string(),
+      action: z.enum(['add', 'remove'])
     })
   };
   
   // Tool implementations
   
-  // Profile and User Operations
-  async getUserProfile(params: z.infer<typeof XTools.schemas.getUserProfile>) {
+  // Profile and User Operations
+  async getUserProfile(params: z.infer<typeof XTools.schemas.getUserProfile>) {
+    try {
+      const twitterClient = this.getClient(params.account);
+      const { username, cache, output_format } = params;
+      
+      if (username.startsWith('@')) {
+        throw new Error('Username should not include @ symbol');
+      }
+      
+      const profile = await twitterClient.getUserProfile(username, cache);
+      
+      if (!profile) {
+        return toolResult(output_format, `User @${username} not found or private account.`, { user: null });
+      }
+      
+      const formattedProfile = twitterClient.formatUserProfile(profile);
+      
+      return toolResult(output_format, formattedProfile, { user: toUserOutput(profile) });
+    } catch (error) {
+      return toolError(`Error fetching profile: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+  
+  async getUsers(params: z.infer<typeof XTools.schemas.getUsers>) {
+    try {
+      const twitterClient = this.getClient(params.account);
+      const { usernames = [], ids = [], cache, output_format } = params;
+      const requested = usernames.length + ids.length;
+      
+      if (!requested) {
+        throw new Error('Provide "usernames", "ids", or both');
+      }
+      if (requested > MAX_BATCH_LOOKUP) {
+        throw new Error(`At most ${MAX_BATCH_LOOKUP} users can be looked up at once, got ${requested}`);
+      }
+      
+      const { data: users, errors } = await twitterClient.getUsers(usernames, ids, cache);
+      const formattedUsers = twitterClient.formatUsers(users);
+      
+      return toolResult(
+        output_format,
+        `**Users (${users.length} of ${requested} found):**\n\n${formattedUsers}${twitterClient.formatLookupErrors(errors)}`,
+        { users: users.map(toUserOutput), errors }
+      );
+    } catch (error) {
+      return toolError(`Error looking up users: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+  
+  async getTweets(params: z.infer<typeof XTools.schemas.getTweets>) {
+    try {
+      const twitterClient = this.getClient(params.account);
+      const { ids, cache, output_format } = params;
+      
+      const { data: tweets, errors, includes } = await twitterClient.getTweets(ids, cache);
+      const formattedTweets = twitterClient.formatTweets(tweets, includes);
+      
+      return toolResult(
+        output_format,
+        `**Tweets (${tweets.length} of ${ids.length} found):**\n\n${formattedTweets}${twitterClient.formatLookupErrors(errors)}`,
+        { tweets: toTweetOutputs(tweets, includes), errors }
+      );
+    } catch (error) {
+      return toolError(`Error looking up tweets: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+  
+  async getUserTimeline(params: z.infer<typeof XTools.schemas.getUserTimeline>) {
+    try {
+      const twitterClient = this.getClient(params.account);
+      const { username, limit, cursor, cache, output_format } = params;
+      
+      if (username.startsWith('@')) {
+        throw new Error('Username should not include @ symbol');
+      }
+      
+      const { data: tweets, nextCursor, includes } = await twitterClient.getUserTimeline(username, limit, cursor, cache);
+      const data = { username, tweets: toTweetOutputs(tweets, includes), nextCursor };
+      
+      if (!tweets.length) {
+        return toolResult(output_format, `No recent tweets found for @${username}.`, data);
+      }
+      
+      const formattedTweets = twitterClient.formatTweets(tweets, includes);
+      
+      return toolResult(
+        output_format,
+        `**Recent tweets from @${username} (${tweets.length} tweets):**\n\n${formattedTweets}${twitterClient.formatNextCursor(nextCursor)}`,
+        data
+      );
+    } catch (error) {
+      return toolError(`Error fetching timeline: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+  
+  async searchTweets(params: z.infer<typeof XTools.schemas.searchTweets>) {
+    try {
+      const twitterClient = this.getClient(params.account);
+      const { query, limit, cursor, cache, output_format } = params;
+      
+      validateSearchQuery(query);
+      
+      const { data: tweets, nextCursor, includes } = await twitterClient.searchTweets(query, limit, cursor, cache);
+      const data = { query, tweets: toTweetOutputs(tweets, includes), nextCursor };
+      
+      if (!tweets.length) {
+        return toolResult(output_format, `No tweets found for query: "${query}"`, data);
+      }
+      
+      const formattedTweets = twitterClient.formatTweets(tweets, includes);
+      
+      return toolResult(
+        output_format,
+        `**Search results for "${query}" (${tweets.length} tweets):**\n\n${formattedTweets}${twitterClient.formatNextCursor(nextCursor)}`,
+        data
+      );
+    } catch (error) {
+      return toolError(`Error searching tweets: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+  
+  async advancedSearch(params: z.infer<typeof XTools.schemas.advancedSearch>) {
+    try {
+      const twitterClient = this.getClient(params.account);
+      const { start_time, end_time, sort_order, full_archive, min_likes = 0, min_retweets = 0, min_replies = 0, limit, cursor, cache, output_format } = params;
+      
+      const query = buildSearchQuery(params);
+      validateSearchQuery(query, { fullArchive: full_archive });
+      validateSearchWindow(start_time, end_time, full_archive);
+      
+      const { data, nextCursor, includes } = await twitterClient.searchTweets(query, limit, cursor, cache, {
+        sortOrder: sort_order,
+        startTime: start_time,
+        endTime: end_time,
+        fullArchive: full_archive
+      });
+      
+      // X has no engagement operators, so the minimums are applied to what was fetched
+      const tweets = data.filter(tweet => {
+        const metrics = tweet.public_metrics;
+        return (metrics?.like_count || 0) >= min_likes
+          && (metrics?.retweet_count || 0) >= min_retweets
+          && (metrics?.reply_count || 0) >= min_replies;
+      });
+      const belowMinEngagement = data.length - tweets.length;
+      const filteredNote = belowMinEngagement ? `\n\n${belowMinEngagement} fetched tweets were below the minimum engagement.` : '';
+      
+      const structured = { query, tweets: toTweetOutputs(tweets, includes), nextCursor, below_min_engagement: belowMinEngagement };
+      const source = full_archive ? 'full archive' : 'last 7 days';
+      
+      if (!tweets.length) {
+        return toolResult(output_format, `No tweets found for query: \`${query}\` (${source})${filteredNote}${twitterClient.formatNextCursor(nextCursor)}`, structured);
+      }
+      
+      const formattedTweets = twitterClient.formatTweets(tweets, includes);
+      
+      return toolResult(
+        output_format,
+        `**Search results for \`${query}\` (${source}, ${tweets.length} tweets):**\n\n${formattedTweets}${filteredNote}${twitterClient.formatNextCursor(nextCursor)}`,
+        structured
+      );
+    } catch (error) {
+      return toolError(`Error searching tweets: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+  
+  async getTweetCounts(params: z.infer<typeof XTools.schemas.getTweetCounts>) {
+    try {
+      const twitterClient = this.getClient(params.account);
+      const { query, granularity, start_time, end_time, full_archive, cursor, cache, output_format } = params;
+      
+      if (cursor && !full_archive) {
+        throw new Error('cursor only applies to full-archive counts; the last 7 days are counted in one request');
+      }
+      validateSearchQuery(query, { fullArchive: full_archive });
+      validateSearchWindow(start_time, end_time, full_archive);
+      
+      const tweetCounts = await twitterClient.getTweetCounts(query, granularity, {
+        startTime: start_time,
+        endTime: end_time,
+        fullArchive: full_archive
+      }, cursor, cache);
+      const formattedCounts = twitterClient.formatTweetCounts(tweetCounts, granularity);
+      
+      return toolResult(
+        output_format,
+        `**Tweet counts for "${query}" (${full_archive ? 'full archive' : 'last 7 days'}):**\n\n${formattedCounts}${twitterClient.formatNextCursor(tweetCounts.nextCursor)}`,
+        { query, granularity, total_tweet_count: tweetCounts.total, counts: tweetCounts.counts, nextCursor: tweetCounts.nextCursor }
+      );
+    } catch (error) {
+      return toolError(`Error fetching tweet counts: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+  
+  async getConversation(params: z.infer<typeof XTools.schemas.getConversation>) {
+    try {
+      const twitterClient = this.getClient(params.account);
+      const { tweetId, limit, cache, output_format } = params;
+      
+      const { root, replies, users } = await twitterClient.getConversation(tweetId, limit, cache);
+      const tree = buildConversationTree(root, replies, users);
+      const conversationId = root.conversation_id || root.id;
+      const replyCount = countConversationReplies(tree);
+      
+      return toolResult(
+        output_format,
+        `**Conversation ${conversationId} (${replyCount} replies):**\n\n${formatConversationTree(tree)}`,
+        { conversation_id: conversationId, reply_count: replyCount, tree }
+      );
+    } catch (error) {
+      return toolError(`Error fetching conversation: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+  
+  async listAccounts(params: z.infer<typeof XTools.schemas.listAccounts>) {
+    try {
+      const { output_format } = params;
+      const names = await OAuth2AuthManager.listAccounts();
+      if (!names.includes(this.defaultAccount)) {
+        names.unshift(this.defaultAccount);
+      }
+      
+      const accounts = await Promise.all(names.map(async account => {
+        const isDefault = account === this.defaultAccount;
+        try {
+          const twitterClient = this.getClient(account);
+          if (!await twitterClient.isAuthenticationAvailable()) {
+            return { account, isDefault, authenticated: false };
+          }
+          
+          const profile = await twitterClient.getMyProfile();
+          return { account, isDefault, authenticated: true, username: profile.username, name: profile.name };
+        } catch (error) {
+          return { account, isDefault, authenticated: false, error: error instanceof Error ? error.message : 'Unknown error' };
+        }
+      }));
+      
+      const formattedAccounts = accounts.map(account => {
+        const label = `**${account.account}**${account.isDefault ? ' (default)' : ''}`;
+        if (account.username) {
+          return `${label}: @${account.username} (${account.name})`;
+        }
+        return `${label}: not authenticated${account.error ? ` - ${account.error}` : ''}. Run "pnpm run setup-auth -- --account ${account.account}"`;
+      }).join('\n');
+      
+      return toolResult(
+        output_format,
+        `**Accounts (${accounts.length}):**\n\n${formattedAccounts}`,
+        { defaultAccount: this.defaultAccount, accounts }
+      );
+    } catch (error) {
+      return toolError(`Error listing accounts: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+  
+  async getRateLimitStatus(params: z.infer<typeof XTools.schemas.getRateLimitStatus>) {
+    try {
+      const twitterClient = this.getClient(params.account);
+      const { output_format } = params;
+      
+      return toolResult(output_format, twitterClient.formatRateLimitStatus(), {
+        budgets: twitterClient.getRateLimitStatus()
+      });
+    } catch (error) {
+      return toolError(`Error fetching rate limit status: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+  
+  // Cache Operations
+  async clearCache(params: z.infer<typeof XTools.schemas.clearCache>) {
+    try {
+      const { resource, output_format } = params;
+      const account = params.account ? validateAccountName(params.account) : undefined;
+      const cache = getResponseCache();
+      const cleared = cache.clear({ account, resource });
+      
+      const scope = [resource && `${resource} responses`, account && `account "${account}"`].filter(Boolean).join(' of ');
+      return toolResult(
+        output_format,
+        `Cleared ${cleared} cached response(s)${scope ? ` (${scope})` : ''}. ${cache.size} remain cached.`,
+        { cleared, remaining: cache.size }
+      );
+    } catch (error) {
+      return toolError(`Error clearing cache: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+  
+  // Authentication Operations
+  async getAuthMode(account?: string): Promise<AuthMode | null> {
+    return this.getClient(account).getAuthMode();
+  }
+  
+  async getGrantedScopes(account?: string): Promise<string[] | undefined> {
+    return this.getClient(account).getGrantedScopes();
+  }
+  
+  async getMissingScopes(requiredScopes: string[] = [], account?: string): Promise<string[]> {
+    return getMissingScopes(await this.getGrantedScopes(account), requiredScopes);
+  }
+  
+  async authStatus(params: z.infer<typeof XTools.schemas.authStatus>) {
+    try {
+      const twitterClient = this.getClient(params.account);
+      const { account } = twitterClient;
+      const { output_format } = params;
+      const authManager = new OAuth2AuthManager(account);
+      
+      const stored = await authManager.loadTokens();
+      const validTokens = stored ? await authManager.getValidTokens() : null;
+      const tokens = validTokens || stored;
+      const authenticated = !!validTokens;
+      const profile = authenticated ? await twitterClient.getMyProfile() : undefined;
+      const pending = this.pendingAuth.get(account);
+      
+      const status = {
+        account,
+        authenticated,
+        username: profile?.username,
+        name: profile?.name,
+        scopes: tokens?.scopes,
+        expiresAt: tokens?.expiresAt ? new Date(tokens.expiresAt).toISOString() : undefined,
+        refreshAvailable: !!tokens?.refreshToken,
+        authorizationPending: !!pending && pending.expiresAt > Date.now()
+      };
+      
+      const lines = [
+        `**Account:** ${account}`,
+        `**Authenticated:** ${authenticated ? `yes, as @${status.username} (${status.name})` : 'no'}`,
+        `**Granted scopes:** ${status.scopes?.join(', ') || 'unknown'}`,
+        `**Access token expires:** ${status.expiresAt || 'unknown'}`,
+        `**Refresh available:** ${status.refreshAvailable ? 'yes' : 'no'}`
+      ];
+      if (status.authorizationPending) {
+        lines.push('**Authorization pending:** waiting for complete_auth');
+      } else if (!authenticated) {
+        lines.push('\nCall start_auth to authenticate this account.');
+      }
+      
+      return toolResult(output_format, lines.join('\n'), status);
+    } catch (error) {
+      return toolError(`Error fetching auth status: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+  
+  async startAuth(params: z.infer<typeof XTools.schemas.startAuth>) {
+    try {
+      const { account } = this.getClient(params.account);
+      const { output_format } = params;
+      const authManager = new OAuth2AuthManager(account);
+      const scopes = resolveScopes(params.scopes);
+      
+      const { url, codeVerifier, state } = authManager.generateAuthLink(scopes);
+      const expiresAt = Date.now() + PENDING_AUTH_TTL_MS;
+      this.pendingAuth.set(account, { codeVerifier, state, expiresAt });
+      
+      const markdown = [
+        `**Authorize account "${account}":**`,
+        '',
+        `Requested scopes: ${scopes.join(', ')}`,
+        '',
+        `1. Open this URL in a browser and authorize the app:\n   ${url}`,
+        `2. You will be redirected to ${authManager.redirectUri}?code=... That page may fail to load, which is expected.`,
+        '3. Call complete_auth with the full URL from the address bar.',
+        '',
+        `This authorization expires at ${new Date(expiresAt).toISOString()}.`
+      ].join('\n');
+      
+      return toolResult(output_format, markdown, {
+        account,
+        scopes,
+        authorizationUrl: url,
+        redirectUri: authManager.redirectUri,
+        expiresAt: new Date(expiresAt).toISOString()
+      });
+    } catch (error) {
+      return toolError(`Error starting authorization: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+  
+  async completeAuth(params: z.infer<typeof XTools.schemas.completeAuth>) {
+    try {
+      const twitterClient = this.getClient(params.account);
+      const { account } = twitterClient;
+      const { callbackUrl, output_format } = params;
+      
+      const pending = this.pendingAuth.get(account);
+      if (!pending || pending.expiresAt <= Date.now()) {
+        this.pendingAuth.delete(account);
+        throw new Error(`No authorization in progress for account "${account}". Call start_auth first.`);
+      }
+      
+      const code = parseAuthorizationResponse(callbackUrl, pending.state);
+      
+      // Authorization codes are single-use, so a failed exchange needs a new start_auth
+      this.pendingAuth.delete(account);
+      const tokens = await new OAuth2AuthManager(account).exchangeCodeForTokens(code, pending.codeVerifier);
+      const profile = await twitterClient.getMyProfile('refresh');
+      
+      return toolResult(
+        output_format,
+        `**Authentication successful!** Account "${account}" is now authenticated as @${profile.username} (${profile.name}).`,
+        { account, username: profile.username, name: profile.name, scopes: tokens.scopes }
+      );
+    } catch (error) {
+      return toolError(`Error completing authorization: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+  
+  async getUserFollowers(params: z.infer<typeof XTools.schemas.getUserFollowers>) {
     try {
-      const { username } = params;
+      const twitterClient = this.getClient(params.account);
+      const { username, limit, cursor, cache, output_format } = params;
       
       if (username.startsWith('@')) {
         throw new Error('Username should not include @ symbol');
       }
       
-      const profile = await this.twitterClient.getUserProfile(username);
+      const { data: followers, nextCursor } = await twitterClient.getUserFollowers(username, limit, cursor, cache);
+      const data = { username, users: followers.map(toUserOutput), nextCursor };
       
-      if (!profile) {
-        return {
-          content: [{ 
-            type: "text" as const, 
-            text: `User @${username} not found or private account.` 
-          }]
-        };
+      if (!followers.length) {
+        return toolResult(output_format, `No followers found for @${username} or account is private.`, data);
       }
       
-      const formattedProfile = this.twitterClient.formatUserProfile(profile);
+      const formattedUsers = twitterClient.formatUsers(followers);
       
-      return {
-        content: [{ 
-          type: "text" as const, 
-          text: formattedProfile 
-        }]
-      };
+      return toolResult(
+        output_format,
+        `**Followers of @${username} (${followers.length} users):**\n\n${formattedUsers}${twitterClient.formatNextCursor(nextCursor)}`,
+        data
+      );
     } catch (error) {
-      return {
-        content: [{ 
-          type: "text" as const, 
-          text: `Error fetching profile: ${error instanceof Error ? error.message : 'Unknown error'}` 
-        }]
-      };
+      return toolError(`Error fetching followers: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
   
-  async getUserTimeline(params: z.infer<typeof XTools.schemas.getUserTimeline>) {
+  async getUserFollowing(params: z.infer<typeof XTools.schemas.getUserFollowing>) {
     try {
-      const { username, limit } = params;
+      const twitterClient = this.getClient(params.account);
+      const { username, limit, cursor, cache, output_format } = params;
       
       if (username.startsWith('@')) {
         throw new Error('Username should not include @ symbol');
       }
       
-      const tweets = await this.twitterClient.getUserTimeline(username, limit);
+      const { data: following, nextCursor } = await twitterClient.getUserFollowing(username, limit, cursor, cache);
+      const data = { username, users: following.map(toUserOutput), nextCursor };
       
-      if (!tweets.length) {
-        return {
-          content: [{ 
-            type: "text" as const, 
-            text: `No recent tweets found for @${username}.` 
-          }]
-        };
+      if (!following.length) {
+        return toolResult(output_format, `No following accounts found for @${username} or account is private.`, data);
       }
       
-      const formattedTweets = this.twitterClient.formatTweets(tweets);
+      const formattedUsers = twitterClient.formatUsers(following);
       
-      return {
-        content: [{ 
-          type: "text" as const, 
-          text: `**Recent tweets from @${username} (${tweets.length} tweets):**\n\n${formattedTweets}` 
-        }]
-      };
+      return toolResult(
+        output_format,
+        `**Accounts followed by @${username} (${following.length} users):**\n\n${formattedUsers}${twitterClient.formatNextCursor(nextCursor)}`,
+        data
+      );
     } catch (error) {
-      return {
-        content: [{ 
-          type: "text" as const, 
-          text: `Error fetching timeline: ${error instanceof Error ? error.message : 'Unknown error'}` 
-        }]
-      };
+      return toolError(`Error fetching following: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
   
-  async searchTweets(params: z.infer<typeof XTools.schemas.searchTweets>) {
+  // Relationship Operations
+  async manageFollow(params: z.infer<typeof XTools.schemas.manageFollow>) {
     try {
-      const { query, limit } = params;
+      const twitterClient = this.getClient(params.account);
+      const { username, action, output_format } = params;
       
-      const tweets = await this.twitterClient.searchTweets(query, limit);
+      if (username.startsWith('@')) {
+        throw new Error('Username should not include @ symbol');
+      }
       
-      if (!tweets.length) {
-        return {
-          content: [{ 
-            type: "text" as const, 
-            text: `No tweets found for query: "${query}"` 
-          }]
-        };
+      let result: boolean;
+      let pending = false;
+      if (action === 'follow') {
+        const response = await twitterClient.followUser(username);
+        result = response.following || response.pending;
+        pending = response.pending;
+      } else {
+        result = await twitterClient.unfollowUser(username);
       }
       
-      const formattedTweets = this.twitterClient.formatTweets(tweets);
+      const actionText = pending ? 'sent a follow request to' : action === 'follow' ? 'followed' : 'unfollowed';
+      const successText = result ? `Successfully ${actionText} @${username}` : `Failed to ${action} @${username}`;
       
-      return {
-        content: [{ 
-          type: "text" as const, 
-          text: `**Search results for "${query}" (${tweets.length} tweets):**\n\n${formattedTweets}` 
-        }]
-      };
+      return toolResult(output_format, successText, { success: result, username, action, pending });
     } catch (error) {
-      return {
-        content: [{ 
-          type: "text" as const, 
-          text: `Error searching tweets: ${error instanceof Error ? error.message : 'Unknown error'}` 
-        }]
-      };
+      return toolError(`Error managing follow: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
   
-  async getUserFollowers(params: z.infer<typeof XTools.schemas.getUserFollowers>) {
+  async manageMute(params: z.infer<typeof XTools.schemas.manageMute>) {
     try {
-      const { username, limit } = params;
+      const twitterClient = this.getClient(params.account);
+      const { username, action, output_format } = params;
       
       if (username.startsWith('@')) {
         throw new Error('Username should not include @ symbol');
       }
       
-      const followers = await this.twitterClient.getUserFollowers(username, limit);
-      
-      if (!followers.length) {
-        return {
-          content: [{ 
-            type: "text" as const, 
-            text: `No followers found for @${username} or account is private.` 
-          }]
-        };
+      let result: boolean;
+      if (action === 'mute') {
+        result = await twitterClient.muteUser(username);
+      } else {
+        result = await twitterClient.unmuteUser(username);
       }
       
-      const formattedUsers = this.twitterClient.formatUsers(followers);
+      const actionText = action === 'mute' ? 'muted' : 'unmuted';
+      const successText = result ? `Successfully ${actionText} @${username}` : `Failed to ${action} @${username}`;
       
-      return {
-        content: [{ 
-          type: "text" as const, 
-          text: `**Followers of @${username} (${followers.length} users):**\n\n${formattedUsers}` 
-        }]
-      };
+      return toolResult(output_format, successText, { success: result, username, action });
     } catch (error) {
-      return {
-        content: [{ 
-          type: "text" as const, 
-          text: `Error fetching followers: ${error instanceof Error ? error.message : 'Unknown error'}` 
-        }]
-      };
+      return toolError(`Error managing mute: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
   
-  async getUserFollowing(params: z.infer<typeof XTools.schemas.getUserFollowing>) {
+  async manageBlock(params: z.infer<typeof XTools.schemas.manageBlock>) {
     try {
-      const { username, limit } = params;
+      const twitterClient = this.getClient(params.account);
+      const { username, action, output_format } = params;
       
       if (username.startsWith('@')) {
         throw new Error('Username should not include @ symbol');
       }
       
-      const following = await this.twitterClient.getUserFollowing(username, limit);
+      let result: boolean;
+      if (action === 'block') {
+        result = await twitterClient.blockUser(username);
+      } else {
+        result = await twitterClient.unblockUser(username);
+      }
+      
+      const actionText = action === 'block' ? 'blocked' : 'unblocked';
+      const successText = result ? `Successfully ${actionText} @${username}` : `Failed to ${action} @${username}`;
       
-      if (!following.length) {
-        return {
-          content: [{ 
-            type: "text" as const, 
-            text: `No following accounts found for @${username} or account is private.` 
-          }]
-        };
+      return toolResult(output_format, successText, { success: result, username, action });
+    } catch (error) {
+      return toolError(`Error managing block: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+  
+  async getMyMuted(params: z.infer<typeof XTools.schemas.getMyMuted>) {
+    try {
+      const twitterClient = this.getClient(params.account);
+      const { limit, cursor, cache, output_format } = params;
+      const { data: users, nextCursor } = await twitterClient.getMyMuted(limit, cursor, cache);
+      const data = { users: users.map(toUserOutput), nextCursor };
+      
+      if (!users.length) {
+        return toolResult(output_format, 'You have not muted any accounts.', data);
       }
       
-      const formattedUsers = this.twitterClient.formatUsers(following);
+      return toolResult(
+        output_format,
+        `**Accounts you muted (${users.length} users):**\n\n${twitterClient.formatUsers(users)}${twitterClient.formatNextCursor(nextCursor)}`,
+        data
+      );
+    } catch (error) {
+      return toolError(`Error fetching muted accounts: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+  
+  async getMyBlocked(params: z.infer<typeof XTools.schemas.getMyBlocked>) {
+    try {
+      const twitterClient = this.getClient(params.account);
+      const { limit, cursor, cache, output_format } = params;
+      const { data: users, nextCursor } = await twitterClient.getMyBlocked(limit, cursor, cache);
+      const data = { users: users.map(toUserOutput), nextCursor };
+      
+      if (!users.length) {
+        return toolResult(output_format, 'You have not blocked any accounts.', data);
+      }
       
-      return {
-        content: [{ 
-          type: "text" as const, 
-          text: `**Accounts followed by @${username} (${following.length} users):**\n\n${formattedUsers}` 
-        }]
-      };
+      return toolResult(
+        output_format,
+        `**Accounts you blocked (${users.length} users):**\n\n${twitterClient.formatUsers(users)}${twitterClient.formatNextCursor(nextCursor)}`,
+        data
+      );
     } catch (error) {
-      return {
-        content: [{ 
-          type: "text" as const, 
-          text: `Error fetching following: ${error instanceof Error ? error.message : 'Unknown error'}` 
-        }]
-      };
+      return toolError(`Error fetching blocked accounts: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+  
+  async getRelationship(params: z.infer<typeof XTools.schemas.getRelationship>) {
+    try {
+      const twitterClient = this.getClient(params.account);
+      const { username, cache, output_format } = params;
+      
+      if (username.startsWith('@')) {
+        throw new Error('Username should not include @ symbol');
+      }
+      
+      const me = await twitterClient.getMyProfile();
+      const { user, relationship } = await twitterClient.getRelationship(username, cache);
+      
+      return toolResult(
+        output_format,
+        twitterClient.formatRelationship(me.username, user, relationship),
+        { source: me.username, target: toUserOutput(user), ...relationship }
+      );
+    } catch (error) {
+      return toolError(`Error fetching relationship: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
   
   // Personal Operations
   async getMyProfile(params: z.infer<typeof XTools.schemas.getMyProfile>) {
     try {
-      const profile = await this.twitterClient.getMyProfile();
-      const formattedProfile = this.twitterClient.formatUserProfile(profile);
+      const twitterClient = this.getClient(params.account);
+      const { cache, output_format } = params;
+      const profile = await twitterClient.getMyProfile(cache);
+      const formattedProfile = twitterClient.formatUserProfile(profile);
       
-      return {
-        content: [{ 
-          type: "text" as const, 
-          text: `**Your X Profile:**\n\n${formattedProfile}` 
-        }]
-      };
+      return toolResult(output_format, `**Your X Profile:**\n\n${formattedProfile}`, { user: toUserOutput(profile) });
     } catch (error) {
-      return {
-        content: [{ 
-          type: "text" as const, 
-          text: `Error fetching your profile: ${error instanceof Error ? error.message : 'Unknown error'}` 
-        }]
-      };
+      return toolError(`Error fetching your profile: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
   
   async getMyTimeline(params: z.infer<typeof XTools.schemas.getMyTimeline>) {
     try {
-      const { limit } = params;
-      const timeline = await this.twitterClient.getMyTimeline(limit);
-      const formattedTimeline = this.twitterClient.formatMyTimeline(timeline);
+      const twitterClient = this.getClient(params.account);
+      const { limit, cursor, cache, output_format } = params;
+      const { data: timeline, nextCursor, includes } = await twitterClient.getMyTimeline(limit, cursor, cache);
+      const formattedTimeline = twitterClient.formatMyTimeline(timeline, includes);
       
-      return {
-        content: [{ 
-          type: "text" as const, 
-          text: formattedTimeline 
-        }]
-      };
+      return toolResult(
+        output_format,
+        formattedTimeline + twitterClient.formatNextCursor(nextCursor),
+        { tweets: toTweetOutputs(timeline, includes), nextCursor }
+      );
     } catch (error) {
-      return {
-        content: [{ 
-          type: "text" as const, 
-          text: `Error fetching timeline: ${error instanceof Error ? error.message : 'Unknown error'}` 
-        }]
-      };
+      return toolError(`Error fetching timeline: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
   
   // Bookmark Operations
   async getMyBookmarks(params: z.infer<typeof XTools.schemas.getMyBookmarks>) {
     try {
-      const { limit } = params;
-      const bookmarks = await this.twitterClient.getMyBookmarks(limit);
-      const formattedBookmarks = this.twitterClient.formatBookmarks(bookmarks);
+      const twitterClient = this.getClient(params.account);
+      const { limit, cursor, cache, output_format } = params;
+      const { data: bookmarks, nextCursor, includes } = await twitterClient.getMyBookmarks(limit, cursor, cache);
+      const formattedBookmarks = twitterClient.formatBookmarks(bookmarks, includes);
       
-      return {
-        content: [{ 
-          type: "text" as const, 
-          text: formattedBookmarks 
-        }]
-      };
+      return toolResult(
+        output_format,
+        formattedBookmarks + twitterClient.formatNextCursor(nextCursor),
+        { tweets: toTweetOutputs(bookmarks, includes), nextCursor }
+      );
     } catch (error) {
-      return {
-        content: [{ 
-          type: "text" as const, 
-          text: `Error fetching bookmarks: ${error instanceof Error ? error.message : 'Unknown error'}` 
-        }]
-      };
+      return toolError(`Error fetching bookmarks: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
   
   async manageBookmark(params: z.infer<typeof XTools.schemas.manageBookmark>) {
     try {
-      const { tweetId, action } = params;
+      const twitterClient = this.getClient(params.account);
+      const { tweetId, action, output_format } = params;
       
       let result: boolean;
       if (action === 'add') {
-        result = await this.twitterClient.addBookmark(tweetId);
+        result = await twitterClient.addBookmark(tweetId);
       } else {
-        result = await this.twitterClient.removeBookmark(tweetId);
+        result = await twitterClient.removeBookmark(tweetId);
       }
       
       const actionText = action === 'add' ? 'bookmarked' : 'removed from bookmarks';
       const successText = result ? `Successfully ${actionText} tweet ${tweetId}` : `Failed to ${action} bookmark for tweet ${tweetId}`;
       
-      return {
-        content: [{ 
-          type: "text" as const, 
-          text: successText 
-        }]
-      };
+      return toolResult(output_format, successText, { success: result, tweetId, action });
     } catch (error) {
-      return {
-        content: [{ 
-          type: "text" as const, 
-          text: `Error managing bookmark: ${error instanceof Error ? error.message : 'Unknown error'}` 
-        }]
-      };
+      return toolError(`Error managing bookmark: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
   
   // Like Operations
   async getMyLikes(params: z.infer<typeof XTools.schemas.getMyLikes>) {
     try {
-      const { limit } = params;
-      const likes = await this.twitterClient.getMyLikes(limit);
-      const formattedLikes = this.twitterClient.formatLikes(likes);
+      const twitterClient = this.getClient(params.account);
+      const { limit, cursor, cache, output_format } = params;
+      const { data: likes, nextCursor, includes } = await twitterClient.getMyLikes(limit, cursor, cache);
+      const formattedLikes = twitterClient.formatLikes(likes, includes);
       
-      return {
-        content: [{ 
-          type: "text" as const, 
-          text: formattedLikes 
-        }]
-      };
+      return toolResult(
+        output_format,
+        formattedLikes + twitterClient.formatNextCursor(nextCursor),
+        { tweets: toTweetOutputs(likes, includes), nextCursor }
+      );
     } catch (error) {
-      return {
-        content: [{ 
-          type: "text" as const, 
-          text: `Error fetching liked tweets: ${error instanceof Error ? error.message : 'Unknown error'}` 
-        }]
-      };
+      return toolError(`Error fetching liked tweets: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
   
   async manageLike(params: z.infer<typeof XTools.schemas.manageLike>) {
     try {
-      const { tweetId, action } = params;
+      const twitterClient = this.getClient(params.account);
+      const { tweetId, action, output_format } = params;
       
       let result: boolean;
       if (action === 'like') {
-        result = await this.twitterClient.likeTweet(tweetId);
+        result = await twitterClient.likeTweet(tweetId);
       } else {
-        result = await this.twitterClient.unlikeTweet(tweetId);
+        result = await twitterClient.unlikeTweet(tweetId);
       }
       
       const actionText = action === 'like' ? 'liked' : 'unliked';
       const successText = result ? `Successfully ${actionText} tweet ${tweetId}` : `Failed to ${action} tweet ${tweetId}`;
       
-      return {
-        content: [{ 
-          type: "text" as const, 
-          text: successText 
-        }]
-      };
+      return toolResult(output_format, successText, { success: result, tweetId, action });
+    } catch (error) {
+      return toolError(`Error managing like: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+  
+  // Retweet Operations
+  async manageRetweet(params: z.infer<typeof XTools.schemas.manageRetweet>) {
+    try {
+      const twitterClient = this.getClient(params.account);
+      const { tweetId, action, output_format } = params;
+      
+      let result: boolean;
+      if (action === 'retweet') {
+        result = await twitterClient.retweetTweet(tweetId);
+      } else {
+        result = await twitterClient.unretweetTweet(tweetId);
+      }
+      
+      const actionText = action === 'retweet' ? 'retweeted' : 'undid the retweet of';
+      const successText = result ? `Successfully ${actionText} tweet ${tweetId}` : `Failed to ${action} tweet ${tweetId}`;
+      
+      return toolResult(output_format, successText, { success: result, tweetId, action });
+    } catch (error) {
+      return toolError(`Error managing retweet: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+  
+  // Engagement Operations
+  async getRetweeters(params: z.infer<typeof XTools.schemas.getRetweeters>) {
+    try {
+      const twitterClient = this.getClient(params.account);
+      const { tweetId, limit, cursor, cache, output_format } = params;
+      
+      const { data: users, nextCursor } = await twitterClient.getRetweeters(tweetId, limit, cursor, cache);
+      const data = { tweetId, users: users.map(toUserOutput), nextCursor };
+      
+      if (!users.length) {
+        return toolResult(output_format, `No retweets found for tweet ${tweetId}.`, data);
+      }
+      
+      return toolResult(
+        output_format,
+        `**Users who retweeted ${tweetId} (${users.length} users):**\n\n${twitterClient.formatUsers(users)}${twitterClient.formatNextCursor(nextCursor)}`,
+        data
+      );
+    } catch (error) {
+      return toolError(`Error fetching retweeters: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+  
+  async getLikingUsers(params: z.infer<typeof XTools.schemas.getLikingUsers>) {
+    try {
+      const twitterClient = this.getClient(params.account);
+      const { tweetId, limit, cursor, cache, output_format } = params;
+      
+      const { data: users, nextCursor } = await twitterClient.getLikingUsers(tweetId, limit, cursor, cache);
+      const data = { tweetId, users: users.map(toUserOutput), nextCursor };
+      
+      if (!users.length) {
+        return toolResult(output_format, `No likes found for tweet ${tweetId}.`, data);
+      }
+      
+      return toolResult(
+        output_format,
+        `**Users who liked ${tweetId} (${users.length} users):**\n\n${twitterClient.formatUsers(users)}${twitterClient.formatNextCursor(nextCursor)}`,
+        data
+      );
+    } catch (error) {
+      return toolError(`Error fetching liking users: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+  
+  async getQuoteTweets(params: z.infer<typeof XTools.schemas.getQuoteTweets>) {
+    try {
+      const twitterClient = this.getClient(params.account);
+      const { tweetId, limit, cursor, cache, output_format } = params;
+      
+      const { data: tweets, nextCursor, includes } = await twitterClient.getQuoteTweets(tweetId, limit, cursor, cache);
+      const data = { tweetId, tweets: toTweetOutputs(tweets, includes), nextCursor };
+      
+      if (!tweets.length) {
+        return toolResult(output_format, `No quote tweets found for tweet ${tweetId}.`, data);
+      }
+      
+      return toolResult(
+        output_format,
+        `**Quote tweets of ${tweetId} (${tweets.length} tweets):**\n\n${twitterClient.formatTweets(tweets, includes)}${twitterClient.formatNextCursor(nextCursor)}`,
+        data
+      );
+    } catch (error) {
+      return toolError(`Error fetching quote tweets: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+  
+  // Publishing Operations
+  async createTweet(params: z.infer<typeof XTools.schemas.createTweet>) {
+    try {
+      const twitterClient = this.getClient(params.account);
+      const { text, media = [], output_format } = params;
+      validateTweetText(text);
+      const mediaFiles = await loadMediaFiles(media);
+      
+      const tweet = await twitterClient.createTweet(text, mediaFiles);
+      
+      return toolResult(
+        output_format,
+        `Successfully posted tweet:\n\n${twitterClient.formatPostedTweet(tweet)}`,
+        { tweet: toPostedTweetOutput(tweet) }
+      );
     } catch (error) {
+      return toolError(`Error creating tweet: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+  
+  async replyToTweet(params: z.infer<typeof XTools.schemas.replyToTweet>) {
+    try {
+      const twitterClient = this.getClient(params.account);
+      const { tweetId, text, media = [], output_format } = params;
+      validateTweetText(text);
+      const mediaFiles = await loadMediaFiles(media);
+      
+      const tweet = await twitterClient.replyToTweet(tweetId, text, mediaFiles);
+      
+      return toolResult(
+        output_format,
+        `Successfully replied to tweet ${tweetId}:\n\n${twitterClient.formatPostedTweet(tweet)}`,
+        { inReplyTo: tweetId, tweet: toPostedTweetOutput(tweet) }
+      );
+    } catch (error) {
+      return toolError(`Error replying to tweet: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+  
+  async quoteTweet(params: z.infer<typeof XTools.schemas.quoteTweet>) {
+    try {
+      const twitterClient = this.getClient(params.account);
+      const { tweetId, text, media = [], output_format } = params;
+      validateTweetText(text);
+      const mediaFiles = await loadMediaFiles(media);
+      
+      const tweet = await twitterClient.quoteTweet(tweetId, text, mediaFiles);
+      
+      return toolResult(
+        output_format,
+        `Successfully quoted tweet ${tweetId}:\n\n${twitterClient.formatPostedTweet(tweet)}`,
+        { quoted: tweetId, tweet: toPostedTweetOutput(tweet) }
+      );
+    } catch (error) {
+      return toolError(`Error quoting tweet: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+  
+  async postThread(params: z.infer<typeof XTools.schemas.postThread>) {
+    try {
+      const twitterClient = this.getClient(params.account);
+      const { tweets, text, numbered, rollbackOnFailure, output_format } = params;
+      
+      if ((tweets && text) || (!tweets && !text)) {
+        throw new Error('Provide either "tweets" or "text", but not both');
+      }
+      
+      const texts = tweets || splitIntoThread(text!, { numbered });
+      if (texts.length > 25) {
+        throw new Error(`Thread would have ${texts.length} tweets; the maximum is 25`);
+      }
+      
+      // Validate every tweet up front so nothing is posted when one of them is too long
+      texts.forEach((tweetText, index) => {
+        try {
+          validateTweetText(tweetText);
+        } catch (error) {
+          throw new Error(`Tweet ${index + 1}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+      });
+      
+      const { posted, error } = await twitterClient.postThread(texts);
+      const postedOutput = posted.map(toPostedTweetOutput);
+      
+      if (!error) {
+        return toolResult(
+          output_format,
+          `Successfully posted thread (${posted.length} tweets):\n\n${posted.map(tweet => twitterClient.formatPostedTweet(tweet)).join('\n\n')}`,
+          { complete: true, total: texts.length, posted: postedOutput }
+        );
+      }
+      
+      const lines = [`Error posting thread: ${error}`];
+      
+      if (posted.length) {
+        lines.push('', `Posted before the failure (${posted.length} of ${texts.length}):`);
+        lines.push(...posted.map(tweet => `- ${tweet.id}`));
+      }
+      
+      let rollback: { rolledBack: boolean; notDeleted: string[] } | undefined;
+      if (rollbackOnFailure && posted.length) {
+        // Delete newest first so no orphaned replies are left behind if rollback stops midway
+        const notDeleted: string[] = [];
+        for (const tweet of [...posted].reverse()) {
+          try {
+            if (!await twitterClient.deleteTweet(tweet.id)) {
+              notDeleted.push(tweet.id);
+            }
+          } catch {
+            notDeleted.push(tweet.id);
+          }
+        }
+        
+        lines.push('', notDeleted.length
+          ? `Rollback incomplete. These tweets could not be deleted: ${notDeleted.join(', ')}`
+          : 'Rolled back: all posted tweets were deleted.');
+        rollback = { rolledBack: !notDeleted.length, notDeleted };
+      }
+      
       return {
-        content: [{ 
-          type: "text" as const, 
-          text: `Error managing like: ${error instanceof Error ? error.message : 'Unknown error'}` 
-        }]
+        ...toolResult(output_format, lines.join('\n'), { complete: false, total: texts.length, posted: postedOutput, error, ...rollback }),
+        isError: true
       };
+    } catch (error) {
+      return toolError(`Error posting thread: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+  
+  async deleteTweet(params: z.infer<typeof XTools.schemas.deleteTweet>) {
+    try {
+      const twitterClient = this.getClient(params.account);
+      const { tweetId, output_format } = params;
+      
+      const result = await twitterClient.deleteTweet(tweetId);
+      const successText = result ? `Successfully deleted tweet ${tweetId}` : `Failed to delete tweet ${tweetId}`;
+      
+      return toolResult(output_format, successText, { success: result, tweetId });
+    } catch (error) {
+      return toolError(`Error deleting tweet: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+  
+  // Direct Message Operations
+  async listDmConversations(params: z.infer<typeof XTools.schemas.listDmConversations>) {
+    try {
+      const twitterClient = this.getClient(params.account);
+      const { limit, cursor, cache, output_format } = params;
+      
+      const me = await twitterClient.getMyProfile();
+      const { data: events, nextCursor, includes } = await twitterClient.getDmEvents(limit, cursor, cache);
+      const conversations = summarizeDmConversations(toDmMessages(events, includes), me.id);
+      
+      return toolResult(
+        output_format,
+        `**Your DM conversations (${conversations.length} in the last ${events.length} messages):**\n\n${formatDmConversations(conversations)}${twitterClient.formatNextCursor(nextCursor)}`,
+        { conversations, nextCursor }
+      );
+    } catch (error) {
+      return toolError(`Error fetching DM conversations: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+  
+  async getDmConversation(params: z.infer<typeof XTools.schemas.getDmConversation>) {
+    try {
+      const twitterClient = this.getClient(params.account);
+      const { username, conversationId, limit, cursor, cache, output_format } = params;
+      const target = this.getDmTarget(username, conversationId);
+      
+      const { data: events, nextCursor, includes } = await twitterClient.getDmConversation(target, limit, cursor, cache);
+      const messages = toDmMessages(events, includes);
+      
+      return toolResult(
+        output_format,
+        `**DM conversation with ${this.formatDmTarget(target)} (${messages.length} messages):**\n\n${formatDmMessages(messages)}${twitterClient.formatNextCursor(nextCursor)}`,
+        { messages, nextCursor }
+      );
+    } catch (error) {
+      return toolError(`Error fetching DM conversation: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+  
+  /**
+   * A DM cannot be unsent, so it is only sent once the user confirms it. Clients that support
+   * elicitation ask the user directly. Otherwise the first call only returns a draft and a token,
+   * and passing the token back sends exactly that draft; this makes the model show the draft,
+   * but cannot prove that the user approved it.
+   */
+  async sendDm(params: z.infer<typeof XTools.schemas.sendDm>, context: ToolContext = {}) {
+    try {
+      const twitterClient = this.getClient(params.account);
+      const { account } = twitterClient;
+      const { confirmationToken, output_format } = params;
+      
+      for (const [token, pending] of this.pendingDms) {
+        if (pending.expiresAt <= Date.now()) {
+          this.pendingDms.delete(token);
+        }
+      }
+      
+      if (confirmationToken) {
+        const pending = this.pendingDms.get(confirmationToken);
+        if (!pending || pending.account !== account) {
+          throw new Error('Unknown or expired confirmation token. Call send_dm without confirmationToken to draft the message again.');
+        }
+        
+        // Used up before sending, so that retrying after a failure cannot send the message twice
+        this.pendingDms.delete(confirmationToken);
+        
+        return await this.deliverDm(twitterClient, pending, output_format);
+      }
+      
+      const { username, conversationId, text, media } = params;
+      const target = this.getDmTarget(username, conversationId);
+      if (!text?.trim() && !media) {
+        throw new Error('A DM needs text, media or both');
+      }
+      
+      const mediaFile = media ? await loadMediaFile(media) : undefined;
+      const recipient = this.formatDmTarget(target);
+      const draft = [
+        text || '(no text)',
+        ...(mediaFile ? ['', `Attachment: ${mediaFile.label} (${mediaFile.mimeType})`] : [])
+      ];
+      
+      if (context.confirm) {
+        const confirmed = await context.confirm([
+          `Send this DM to ${recipient} from account "${account}"? It cannot be unsent.`,
+          '',
+          ...draft
+        ].join('\n'));
+        if (!confirmed) {
+          return toolResult(output_format, `The user did not confirm the DM to ${recipient}. Nothing was sent.`, {
+            status: 'cancelled',
+            recipient,
+            text,
+            hasMedia: !!mediaFile
+          });
+        }
+        return await this.deliverDm(twitterClient, { target, text, media: mediaFile }, output_format);
+      }
+      
+      const token = randomUUID();
+      const expiresAt = new Date(Date.now() + PENDING_DM_TTL_MS);
+      this.pendingDms.set(token, { account, target, text, media: mediaFile, expiresAt: expiresAt.getTime() });
+      
+      const markdown = [
+        `**Draft DM to ${recipient} from account "${account}":**`,
+        '',
+        ...draft,
+        '',
+        'Nothing has been sent yet. DMs cannot be unsent, so show this draft to the user and only after they approve it call send_dm with:',
+        `confirmationToken: ${token}`,
+        '',
+        `This draft expires at ${expiresAt.toISOString()}.`
+      ].join('\n');
+      
+      return toolResult(output_format, markdown, {
+        status: 'pending_confirmation',
+        recipient,
+        text,
+        hasMedia: !!mediaFile,
+        confirmationToken: token,
+        expiresAt: expiresAt.toISOString()
+      });
+    } catch (error) {
+      return toolError(`Error sending DM: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+  
+  private async deliverDm(twitterClient: TwitterClient, dm: Pick<PendingDm, 'target' | 'text' | 'media'>, output_format: OutputFormat) {
+    const { target, text, media } = dm;
+    const result = await twitterClient.sendDm(target, text, media);
+    const recipient = this.formatDmTarget(target);
+    
+    return toolResult(output_format, `Successfully sent DM to ${recipient} (event ID: ${result.dm_event_id})`, {
+      status: 'sent',
+      recipient,
+      text,
+      hasMedia: !!media,
+      ...result
+    });
+  }
+  
+  private getDmTarget(username?: string, conversationId?: string): DmTarget {
+    if (!!username === !!conversationId) {
+      throw new Error('Provide either "username" or "conversationId", but not both');
+    }
+    if (username?.startsWith('@')) {
+      throw new Error('Username should not include @ symbol');
     }
+    return username ? { username } : { conversationId };
+  }
+  
+  private formatDmTarget(target: DmTarget): string {
+    return target.username ? `@${target.username}` : `conversation ${target.conversationId}`;
   }
   
   // List Operations
   
   async getMyLists(params: z.infer<typeof XTools.schemas.getMyLists>) {
     try {
-      const lists = await this.twitterClient.getMyLists();
+      const twitterClient = this.getClient(params.account);
+      const { cache, output_format } = params;
+      const lists = await twitterClient.getMyLists(cache);
+      const data = { lists: lists.map(toListOutput) };
       
       if (!lists.length) {
-        return {
-          content: [{ 
-            type: "text" as const, 
-            text: 'You have no lists.' 
-          }]
-        };
+        return toolResult(output_format, 'You have no lists.', data);
       }
       
-      const formattedLists = this.twitterClient.formatLists(lists);
+      const formattedLists = twitterClient.formatLists(lists);
       
-      return {
-        content: [{ 
-          type: "text" as const, 
-          text: `**Your Lists (${lists.length}):**\n\n${formattedLists}` 
-        }]
-      };
+      return toolResult(output_format, `**Your Lists (${lists.length}):**\n\n${formattedLists}`, data);
     } catch (error) {
-      return {
-        content: [{ 
-          type: "text" as const, 
-          text: `Error fetching lists: ${error instanceof Error ? error.message : 'Unknown error'}` 
-        }]
-      };
+      return toolError(`Error fetching lists: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
   
   async getList(params: z.infer<typeof XTools.schemas.getList>) {
     try {
-      const { listId } = params;
-      const list = await this.twitterClient.getList(listId);
+      const twitterClient = this.getClient(params.account);
+      const { listId, cache, output_format } = params;
+      const list = await twitterClient.getList(listId, cache);
       
-      const formattedList = this.twitterClient.formatListDetails(list);
+      const formattedList = twitterClient.formatListDetails(list);
       
-      return {
-        content: [{ 
-          type: "text" as const, 
-          text: formattedList 
-        }]
-      };
+      return toolResult(output_format, formattedList, { list: toListOutput(list) });
     } catch (error) {
-      return {
-        content: [{ 
-          type: "text" as const, 
-          text: `Error fetching list: ${error instanceof Error ? error.message : 'Unknown error'}` 
-        }]
-      };
+      return toolError(`Error fetching list: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
   
   async getListTweets(params: z.infer<typeof XTools.schemas.getListTweets>) {
     try {
-      const { listId, limit = 10 } = params;
+      const twitterClient = this.getClient(params.account);
+      const { listId, limit = 10, cursor, cache, output_format } = params;
       
       // Get list details for name
-      const list = await this.twitterClient.getList(listId);
-      const tweets = await this.twitterClient.getListTweets(listId, limit);
+      const list = await twitterClient.getList(listId, cache);
+      const { data: tweets, nextCursor, includes } = await twitterClient.getListTweets(listId, limit, cursor, cache);
       
-      const formattedTweets = this.twitterClient.formatListTweets(tweets, list.name);
+      const formattedTweets = twitterClient.formatListTweets(tweets, list.name, includes);
       
-      return {
-        content: [{ 
-          type: "text" as const, 
-          text: formattedTweets 
-        }]
-      };
+      return toolResult(
+        output_format,
+        formattedTweets + twitterClient.formatNextCursor(nextCursor),
+        { list: toListOutput(list), tweets: toTweetOutputs(tweets, includes), nextCursor }
+      );
     } catch (error) {
-      return {
-        content: [{ 
-          type: "text" as const, 
-          text: `Error fetching list tweets: ${error instanceof Error ? error.message : 'Unknown error'}` 
-        }]
-      };
+      return toolError(`Error fetching list tweets: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
   
   async getListMembers(params: z.infer<typeof XTools.schemas.getListMembers>) {
     try {
-      const { listId, limit = 10 } = params;
+      const twitterClient = this.getClient(params.account);
+      const { listId, limit = 10, cursor, cache, output_format } = params;
       
       // Get list details for name
-      const list = await this.twitterClient.getList(listId);
-      const members = await this.twitterClient.getListMembers(listId, limit);
+      const list = await twitterClient.getList(listId, cache);
+      const { data: members, nextCursor } = await twitterClient.getListMembers(listId, limit, cursor, cache);
       
-      const formattedMembers = this.twitterClient.formatListMembers(members, list.name);
+      const formattedMembers = twitterClient.formatListMembers(members, list.name);
       
-      return {
-        content: [{ 
-          type: "text" as const, 
-          text: formattedMembers 
-        }]
-      };
+      return toolResult(
+        output_format,
+        formattedMembers + twitterClient.formatNextCursor(nextCursor),
+        { list: toListOutput(list), users: members.map(toUserOutput), nextCursor }
+      );
     } catch (error) {
-      return {
-        content: [{ 
-          type: "text" as const, 
-          text: `Error fetching list members: ${error instanceof Error ? error.message : 'Unknown error'}` 
-        }]
-      };
+      return toolError(`Error fetching list members: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
   
   async createList(params: z.infer<typeof XTools.schemas.createList>) {
     try {
-      const { name, description, private: isPrivate = false } = params;
+      const twitterClient = this.getClient(params.account);
+      const { name, description, private: isPrivate = false, output_format } = params;
       
-      const newList = await this.twitterClient.createList(name, description, isPrivate);
+      const newList = await twitterClient.createList(name, description, isPrivate);
       
-      return {
-        content: [{ 
-          type: "text" as const, 
-          text: `Successfully created list "${name}" (ID: ${newList.id})${description ? `\nDescription: ${description}` : ''}${isPrivate ? '\nPrivacy: Private' : '\nPrivacy: Public'}` 
-        }]
-      };
+      return toolResult(
+        output_format,
+        `Successfully created list "${name}" (ID: ${newList.id})${description ? `\nDescription: ${description}` : ''}${isPrivate ? '\nPrivacy: Private' : '\nPrivacy: Public'}`,
+        { list: toListOutput({ ...newList, description, private: isPrivate }) }
+      );
     } catch (error) {
-      return {
-        content: [{ 
-          type: "text" as const, 
-          text: `Error creating list: ${error instanceof Error ? error.message : 'Unknown error'}` 
-        }]
-      };
+      return toolError(`Error creating list: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
   
   async updateList(params: z.infer<typeof XTools.schemas.updateList>) {
     try {
-      const { listId, name, description, private: isPrivate } = params;
+      const twitterClient = this.getClient(params.account);
+      const { listId, name, description, private: isPrivate, output_format } = params;
       
       if (!name && description === undefined && isPrivate === undefined) {
-        return {
-          content: [{ 
-            type: "text" as const, 
-            text: 'No changes specified. Please provide at least one field to update (name, description, or privacy).' 
-          }]
-        };
+        return toolError('No changes specified. Please provide at least one field to update (name, description, or privacy).');
       }
       
-      await this.twitterClient.updateList(listId, name, description, isPrivate);
+      await twitterClient.updateList(listId, name, description, isPrivate);
       
       const changes = [];
       if (name) changes.push(`Name: "${name}"`);
       if (description !== undefined) changes.push(`Description: "${description || 'No description'}"`);
       if (isPrivate !== undefined) changes.push(`Privacy: ${isPrivate ? 'Private' : 'Public'}`);
       
-      return {
-        content: [{ 
-          type: "text" as const, 
-          text: `Successfully updated list ${listId}\n${changes.join('\n')}` 
-        }]
-      };
+      return toolResult(
+        output_format,
+        `Successfully updated list ${listId}\n${changes.join('\n')}`,
+        { success: true, listId, name, description, private: isPrivate }
+      );
     } catch (error) {
-      return {
-        content: [{ 
-          type: "text" as const, 
-          text: `Error updating list: ${error instanceof Error ? error.message : 'Unknown error'}` 
-        }]
-      };
+      return toolError(`Error updating list: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
   
   async deleteList(params: z.infer<typeof XTools.schemas.deleteList>) {
     try {
-      const { listId } = params;
+      const twitterClient = this.getClient(params.account);
+      const { listId, output_format } = params;
       
-      const result = await this.twitterClient.deleteList(listId);
+      const result = await twitterClient.deleteList(listId);
       const successText = result ? `Successfully deleted list ${listId}` : `Failed to delete list ${listId}`;
       
-      return {
-        content: [{ 
-          type: "text" as const, 
-          text: successText 
-        }]
-      };
+      return toolResult(output_format, successText, { success: result, listId });
     } catch (error) {
-      return {
-        content: [{ 
-          type: "text" as const, 
-          text: `Error deleting list: ${error instanceof Error ? error.message : 'Unknown error'}` 
-        }]
-      };
+      return toolError(`Error deleting list: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
   
   async manageListMember(params: z.infer<typeof XTools.schemas.manageListMember>) {
     try {
-      const { listId, username, action } = params;
+      const twitterClient = this.getClient(params.account);
+      const { listId, username, action, output_format } = params;
       
       if (username.startsWith('@')) {
         throw new Error('Username should not include @ symbol');
@@ -642,27 +2017,17 @@ export class XTools {
       
       let result: boolean;
       if (action === 'add') {
-        result = await this.twitterClient.addListMember(listId, username);
+        result = await twitterClient.addListMember(listId, username);
       } else {
-        result = await this.twitterClient.removeListMember(listId, username);
+        result = await twitterClient.removeListMember(listId, username);
       }
       
       const actionText = action === 'add' ? 'added to' : 'removed from';
       const successText = result ? `Successfully ${actionText} list ${listId}: @${username}` : `Failed to ${action} @${username} ${action === 'add' ? 'to' : 'from'} list ${listId}`;
       
-      return {
-        content: [{ 
-          type: "text" as const, 
-          text: successText 
-        }]
-      };
+      return toolResult(output_format, successText, { success: result, listId, username, action });
     } catch (error) {
-      return {
-        content: [{ 
-          type: "text" as const, 
-          text: `Error managing list member: ${error instanceof Error ? error.message : 'Unknown error'}` 
-        }]
-      };
+      return toolError(`Error managing list member: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
-}
\ No newline at end of file
+}
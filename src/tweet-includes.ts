@@ -0,0 +1,197 @@
+import { ApiV2Includes, MediaObjectV2, PollV2, TweetV2, UserV2 } from 'twitter-api-v2';
+
+export interface TweetAuthor {
+  id: string;
+  username: string;
+  name: string;
+}
+
+export interface ReferencedTweet {
+  id: string;
+  text?: string;
+  author?: TweetAuthor;
+}
+
+export interface TweetMedia {
+  media_key: string;
+  type: string;
+  url?: string;
+  alt_text?: string;
+}
+
+export interface TweetPoll {
+  options: { label: string; votes: number }[];
+  voting_status?: string;
+  end_datetime?: string;
+}
+
+// What the expansions of a response add to one of its tweets
+export interface TweetContext {
+  author?: TweetAuthor;
+  quoted_tweet?: ReferencedTweet;
+  retweeted_tweet?: ReferencedTweet;
+  replied_to_tweet?: ReferencedTweet;
+  media?: TweetMedia[];
+  poll?: TweetPoll;
+}
+
+// Longest referenced tweet text shown in markdown
+const PREVIEW_LENGTH = 140;
+
+/**
+ * Adds the includes of one page to those collected from earlier pages.
+ */
+export function mergeIncludes(includes: ApiV2Includes, page: ApiV2Includes = {}): ApiV2Includes {
+  return {
+    users: [...(includes.users || []), ...(page.users || [])],
+    tweets: [...(includes.tweets || []), ...(page.tweets || [])],
+    media: [...(includes.media || []), ...(page.media || [])],
+    polls: [...(includes.polls || []), ...(page.polls || [])]
+  };
+}
+
+function toAuthor(user: UserV2): TweetAuthor {
+  return { id: user.id, username: user.username, name: user.name };
+}
+
+function toMedia(media: MediaObjectV2): TweetMedia {
+  // Videos and GIFs have no url of their own; link the best MP4 and fall back to the preview image
+  const video = (media.variants || [])
+    .filter(variant => variant.content_type === 'video/mp4')
+    .sort((a, b) => (b.bit_rate || 0) - (a.bit_rate || 0))[0];
+  
+  return {
+    media_key: media.media_key,
+    type: media.type,
+    url: media.url || video?.url || media.preview_image_url,
+    alt_text: media.alt_text
+  };
+}
+
+function toPoll(poll: PollV2): TweetPoll {
+  return {
+    options: [...poll.options]
+      .sort((a, b) => a.position - b.position)
+      .map(option => ({ label: option.label, votes: option.votes })),
+    voting_status: poll.voting_status,
+    end_datetime: poll.end_datetime
+  };
+}
+
+/**
+ * Joins the `includes` of a response onto its tweets: authors, quoted, retweeted and
+ * replied-to tweets, media and polls. Anything X left out of the includes (deleted or
+ * protected tweets, fields that were not requested) is simply omitted.
+ */
+export class IncludesResolver {
+  private users: Map<string, UserV2>;
+  private tweets: Map<string, TweetV2>;
+  private media: Map<string, MediaObjectV2>;
+  private polls: Map<string, PollV2>;
+  
+  constructor(includes: ApiV2Includes = {}) {
+    this.users = new Map((includes.users || []).map(user => [user.id, user]));
+    this.tweets = new Map((includes.tweets || []).map(tweet => [tweet.id, tweet]));
+    this.media = new Map((includes.media || []).map(media => [media.media_key, media]));
+    this.polls = new Map((includes.polls || []).map(poll => [poll.id, poll]));
+  }
+  
+  resolve(tweet: TweetV2): TweetContext {
+    const context: TweetContext = {};
+    
+    const author = this.getAuthor(tweet.author_id);
+    if (author) {
+      context.author = author;
+    }
+    
+    for (const reference of tweet.referenced_tweets || []) {
+      const referenced = this.getReferencedTweet(reference.id);
+      if (reference.type === 'quoted') {
+        context.quoted_tweet = referenced;
+      } else if (reference.type === 'retweeted') {
+        context.retweeted_tweet = referenced;
+      } else if (reference.type === 'replied_to') {
+        // The parent tweet may be missing, but the user replied to is still known
+        context.replied_to_tweet = referenced.author || !tweet.in_reply_to_user_id
+          ? referenced
+          : { ...referenced, author: this.getAuthor(tweet.in_reply_to_user_id) };
+      }
+    }
+    
+    const media = this.getMedia(tweet.attachments?.media_keys);
+    if (media.length) {
+      context.media = media;
+    }
+    
+    const poll = tweet.attachments?.poll_ids?.map(id => this.polls.get(id)).find(Boolean);
+    if (poll) {
+      context.poll = toPoll(poll);
+    }
+    
+    return context;
+  }
+  
+  getAuthor(userId: string | undefined): TweetAuthor | undefined {
+    const user = userId ? this.users.get(userId) : undefined;
+    return user ? toAuthor(user) : undefined;
+  }
+  
+  getMedia(mediaKeys: string[] = []): TweetMedia[] {
+    return mediaKeys
+      .map(key => this.media.get(key))
+      .filter((item): item is MediaObjectV2 => !!item)
+      .map(toMedia);
+  }
+  
+  private getReferencedTweet(id: string): ReferencedTweet {
+    const tweet = this.tweets.get(id);
+    if (!tweet) {
+      return { id };
+    }
+    return { id, text: tweet.text, author: this.getAuthor(tweet.author_id) };
+  }
+}
+
+function formatHandle(author: TweetAuthor | undefined): string {
+  return author ? `@${author.username}` : 'unknown author';
+}
+
+function formatReferencedTweet(tweet: ReferencedTweet): string {
+  if (tweet.text === undefined) {
+    return `${formatHandle(tweet.author)} (tweet ${tweet.id} unavailable)`;
+  }
+  
+  const text = tweet.text.replace(/\s+/g, ' ');
+  const preview = text.length > PREVIEW_LENGTH ? `${text.slice(0, PREVIEW_LENGTH - 1)}…` : text;
+  return `${formatHandle(tweet.author)}: "${preview}" (ID: ${tweet.id})`;
+}
+
+/**
+ * Markdown lines for the resolved context of a tweet, one field per line.
+ */
+export function formatTweetContext(context: TweetContext): string[] {
+  const lines: string[] = [];
+  
+  if (context.retweeted_tweet) {
+    lines.push(`**Retweet of:** ${formatReferencedTweet(context.retweeted_tweet)}`);
+  }
+  if (context.replied_to_tweet) {
+    lines.push(`**Replying to:** ${formatReferencedTweet(context.replied_to_tweet)}`);
+  }
+  if (context.quoted_tweet) {
+    lines.push(`**Quoting:** ${formatReferencedTweet(context.quoted_tweet)}`);
+  }
+  
+  for (const media of context.media || []) {
+    const alt = media.alt_text ? ` (alt: ${media.alt_text})` : '';
+    lines.push(`**Media (${media.type}):** ${media.url || 'no URL available'}${alt}`);
+  }
+  
+  if (context.poll) {
+    const options = context.poll.options.map(option => `${option.label} (${option.votes.toLocaleString()} votes)`);
+    const status = context.poll.voting_status ? ` [${context.poll.voting_status}]` : '';
+    lines.push(`**Poll${status}:** ${options.join(' | ')}`);
+  }
+  
+  return lines;
+}
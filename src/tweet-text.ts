@@ -0,0 +1,166 @@
+// Weighted length rules used by X when counting tweet characters.
+// See https://docs.x.com/resources/fundamentals/counting-characters
+
+export const MAX_TWEET_LENGTH = 280;
+
+// Every URL is shortened to a t.co link and counts as 23 characters regardless of its length
+const URL_WEIGHT = 23;
+
+// Code points in these ranges (Latin, punctuation, etc.) count as 1, everything else (CJK, emoji) counts as 2
+const SINGLE_WEIGHT_RANGES: Array<[number, number]> = [
+  [0, 4351],
+  [8192, 8205],
+  [8208, 8223],
+  [8242, 8247]
+];
+
+const URL_PATTERN = /\bhttps?:\/\/[^\s]+|\b(?:[a-z0-9-]+\.)+(?:com|net|org|io|co|dev|ai|app|me|ly|gg|xyz|edu|gov|tv|info)\b(?:\/[^\s]*)?/gi;
+const EMOJI_PATTERN = /\p{Extended_Pictographic}|\p{Regional_Indicator}/u;
+
+const segmenter = new Intl.Segmenter('en', { granularity: 'grapheme' });
+
+function codePointWeight(codePoint: number): number {
+  return SINGLE_WEIGHT_RANGES.some(([min, max]) => codePoint >= min && codePoint <= max) ? 1 : 2;
+}
+
+function textWeight(text: string): number {
+  let weight = 0;
+  
+  for (const { segment } of segmenter.segment(text)) {
+    // An emoji sequence (skin tones, ZWJ families, flags) counts as a single emoji
+    if (EMOJI_PATTERN.test(segment)) {
+      weight += 2;
+      continue;
+    }
+    
+    for (const char of segment) {
+      weight += codePointWeight(char.codePointAt(0)!);
+    }
+  }
+  
+  return weight;
+}
+
+export function countTweetLength(text: string): number {
+  const normalized = text.normalize('NFC');
+  let weight = 0;
+  let lastIndex = 0;
+  
+  for (const match of normalized.matchAll(URL_PATTERN)) {
+    weight += textWeight(normalized.slice(lastIndex, match.index)) + URL_WEIGHT;
+    lastIndex = match.index! + match[0].length;
+  }
+  
+  return weight + textWeight(normalized.slice(lastIndex));
+}
+
+export function validateTweetText(text: string): void {
+  if (!text.trim()) {
+    throw new Error('Tweet text cannot be empty');
+  }
+  
+  const length = countTweetLength(text);
+  if (length > MAX_TWEET_LENGTH) {
+    throw new Error(`Tweet is too long: ${length}/${MAX_TWEET_LENGTH} characters (URLs count as ${URL_WEIGHT}, emoji and CJK characters count as 2)`);
+  }
+}
+
+// Sentences end at punctuation followed by whitespace, so that URLs and decimals stay whole
+const SENTENCE_BOUNDARY = /(?<=[.!?]+["')\]]*)\s+|\s*\n\s*/;
+
+function splitOversized(segment: string, budget: number, start: string): string[] {
+  const pieces: string[] = [];
+  let current = start;
+  
+  for (const word of segment.split(/\s+/).filter(Boolean)) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (countTweetLength(candidate) <= budget) {
+      current = candidate;
+      continue;
+    }
+    
+    if (current) {
+      pieces.push(current);
+    }
+    
+    // A single word longer than the budget has to be cut mid-word
+    current = '';
+    for (const char of word) {
+      if (countTweetLength(current + char) > budget) {
+        pieces.push(current);
+        current = '';
+      }
+      current += char;
+    }
+  }
+  
+  if (current) {
+    pieces.push(current);
+  }
+  
+  return pieces;
+}
+
+function packSentences(sentences: string[], budget: number): string[] {
+  const chunks: string[] = [];
+  let current = '';
+  
+  for (const sentence of sentences) {
+    const candidate = current ? `${current} ${sentence}` : sentence;
+    if (countTweetLength(candidate) <= budget) {
+      current = candidate;
+      continue;
+    }
+    
+    if (countTweetLength(sentence) <= budget) {
+      if (current) {
+        chunks.push(current);
+      }
+      current = sentence;
+    } else {
+      // Sentences that cannot fit in one tweet keep filling the current one word by word
+      const pieces = splitOversized(sentence, budget, current);
+      current = pieces.pop() || '';
+      chunks.push(...pieces);
+    }
+  }
+  
+  if (current) {
+    chunks.push(current);
+  }
+  
+  return chunks;
+}
+
+/**
+ * Splits long text into tweets at sentence boundaries, falling back to word
+ * boundaries for sentences that do not fit. When `numbered` is set each tweet
+ * gets a " 1/5" style suffix and the suffix is included in the length budget.
+ * Text that fits in a single tweet is returned as-is without numbering.
+ */
+export function splitIntoThread(text: string, options: { numbered?: boolean; maxLength?: number } = {}): string[] {
+  const { numbered = true, maxLength = MAX_TWEET_LENGTH } = options;
+  const sentences = text.split(SENTENCE_BOUNDARY)
+    .map(sentence => sentence.trim())
+    .filter(Boolean);
+  
+  if (!sentences.length) {
+    return [];
+  }
+  
+  const unnumbered = packSentences(sentences, maxLength);
+  if (!numbered || unnumbered.length === 1) {
+    return unnumbered;
+  }
+  
+  // The suffix width depends on the total count, so repack until the count is stable
+  let total = 1;
+  for (;;) {
+    const suffixLength = ` ${total}/${total}`.length;
+    const chunks = packSentences(sentences, maxLength - suffixLength);
+    if (chunks.length <= total) {
+      return chunks.map((chunk, index) => `${chunk} ${index + 1}/${chunks.length}`);
+    }
+    total = chunks.length;
+  }
+}
@@ -1,37 +1,286 @@
-import { TwitterApi, UserV2, TweetV2 } from 'twitter-api-v2';
+import { TwitterApi, UserV2, TweetV2, SendTweetV2Params, Tweetv2FieldsParams, UsersV2Params, InlineErrorV2, ApiV2Includes } from 'twitter-api-v2';
 import { z } from 'zod';
 import dotenv from 'dotenv';
-import { OAuth2AuthManager } from './auth-manager.js';
+import { OAuth2AuthManager, getDefaultAccount, validateAccountName } from './auth-manager.js';
+import { MAX_MEDIA_PER_TWEET, MediaFile } from './media.js';
+import { RateLimiter, RateLimitBudget } from './rate-limiter.js';
+import { CacheMode, CacheResource, getResponseCache } from './response-cache.js';
+import { IncludesResolver, formatTweetContext, mergeIncludes } from './tweet-includes.js';
+import { DmEvent, DmEventParams } from './direct-messages.js';
 
 dotenv.config();
 
+// Upper bound on items collected when a limit spans several pages
+export const MAX_PAGINATED_RESULTS = 1000;
+
+// Upper bound on full-archive count pages fetched per call; each page covers up to 31 days
+export const MAX_COUNT_PAGES = 10;
+
+export interface Page<T> {
+  data: T[];
+  nextCursor?: string;
+  includes?: ApiV2Includes;
+}
+
+interface RawPage<T> {
+  data?: T[];
+  includes?: ApiV2Includes;
+  meta?: { next_token?: string };
+}
+
+// Requested for every list of tweets, so that authors, referenced tweets, media and polls can be shown
+const TWEET_FIELDS: Partial<Tweetv2FieldsParams> = {
+  'tweet.fields': ['id', 'text', 'created_at', 'public_metrics', 'author_id', 'conversation_id', 'referenced_tweets', 'in_reply_to_user_id', 'attachments'],
+  'user.fields': ['id', 'name', 'username'],
+  'media.fields': ['media_key', 'type', 'url', 'preview_image_url', 'alt_text', 'variants'],
+  'poll.fields': ['id', 'options', 'voting_status', 'end_datetime'],
+  expansions: ['author_id', 'referenced_tweets.id', 'referenced_tweets.id.author_id', 'in_reply_to_user_id', 'attachments.media_keys', 'attachments.poll_ids']
+};
+
+// Maximum number of IDs or usernames per batch lookup request
+export const MAX_BATCH_LOOKUP = 100;
+
+export const LOOKUP_ERROR_REASONS = ['not_found', 'suspended', 'protected', 'invalid', 'error'] as const;
+
+export type LookupErrorReason = typeof LOOKUP_ERROR_REASONS[number];
+
+export interface LookupError {
+  value: string;
+  reason: LookupErrorReason;
+  detail?: string;
+}
+
+// Batch lookups succeed per item: what was found, and why each other item was not
+export interface LookupResult<T> {
+  data: T[];
+  errors: LookupError[];
+  includes?: ApiV2Includes;
+}
+
+const USERNAME_PATTERN = /^[A-Za-z0-9_]{1,15}$/;
+const ID_PATTERN = /^\d{1,19}$/;
+
+function toLookupError(error: InlineErrorV2): LookupError {
+  const message = `${error.title} ${error.detail}`.toLowerCase();
+  let reason: LookupErrorReason = 'error';
+  
+  if (message.includes('suspended')) {
+    reason = 'suspended';
+  } else if (message.includes('not authorized') || message.includes('protected')) {
+    reason = 'protected';
+  } else if (message.includes('not found')) {
+    reason = 'not_found';
+  }
+  
+  return { value: error.value || error.resource_id || '', reason, detail: error.detail };
+}
+
+// Splits off malformed values, which would make X reject the whole batch
+function partitionValid(values: string[], pattern: RegExp, errors: LookupError[], kind: string): string[] {
+  return values.filter(value => {
+    if (pattern.test(value)) {
+      return true;
+    }
+    errors.push({ value, reason: 'invalid', detail: `Not a valid ${kind}` });
+    return false;
+  });
+}
+
+export interface SearchOptions {
+  sortOrder?: 'recency' | 'relevancy';
+  startTime?: string;
+  endTime?: string;
+  // The full-archive endpoint needs Pro or Enterprise access
+  fullArchive?: boolean;
+}
+
+export type CountGranularity = 'minute' | 'hour' | 'day';
+
+// X takes one to four media IDs per tweet
+type MediaIds = NonNullable<NonNullable<SendTweetV2Params['media']>['media_ids']>;
+
+function toMediaIds(ids: string[]): MediaIds {
+  switch (ids.length) {
+    case 1: return [ids[0]];
+    case 2: return [ids[0], ids[1]];
+    case 3: return [ids[0], ids[1], ids[2]];
+    case 4: return [ids[0], ids[1], ids[2], ids[3]];
+    default: throw new Error(`A tweet can have 1 to ${MAX_MEDIA_PER_TWEET} media attachments, got ${ids.length}`);
+  }
+}
+
+export interface TweetCount {
+  start: string;
+  end: string;
+  tweet_count: number;
+}
+
+export interface TweetCounts {
+  counts: TweetCount[];
+  total: number;
+  nextCursor?: string;
+}
+
+const SPARKLINE_CHARS = '▁▂▃▄▅▆▇█';
+const MAX_SPARKLINE_WIDTH = 60;
+
+// Long series are summed into wider buckets to keep the sparkline on one line
+function sparkline(values: number[]): { line: string; bucketsPerChar: number } {
+  const bucketsPerChar = Math.max(1, Math.ceil(values.length / MAX_SPARKLINE_WIDTH));
+  const points: number[] = [];
+  for (let i = 0; i < values.length; i += bucketsPerChar) {
+    points.push(values.slice(i, i + bucketsPerChar).reduce((sum, value) => sum + value, 0));
+  }
+  
+  const max = Math.max(0, ...points);
+  const line = points.map(point => SPARKLINE_CHARS[max ? Math.round(point / max * (SPARKLINE_CHARS.length - 1)) : 0]).join('');
+  return { line, bucketsPerChar };
+}
+
+// How the authenticated account relates to another, as far as X reports it
+export interface Relationship {
+  following: boolean;
+  followed_by: boolean;
+  follow_request_sent: boolean;
+  follow_request_received: boolean;
+  muting: boolean;
+  blocking: boolean;
+}
+
+// A DM goes to a user (their one-to-one conversation) or to an existing conversation
+export interface DmTarget {
+  username?: string;
+  conversationId?: string;
+}
+
+// Fields and expansions for DM events, so that senders and media can be shown
+const DM_EVENT_FIELDS: DmEventParams = {
+  'dm_event.fields': ['id', 'text', 'event_type', 'created_at', 'sender_id', 'dm_conversation_id', 'attachments', 'participant_ids'],
+  'user.fields': ['id', 'name', 'username'],
+  'media.fields': ['media_key', 'type', 'url', 'preview_image_url', 'alt_text', 'variants'],
+  expansions: ['sender_id', 'participant_ids', 'attachments.media_keys']
+};
+
+// 'user' acts as an X account, 'app' reads public data with the app-only bearer token
+export type AuthMode = 'user' | 'app';
+
 export class TwitterClient {
-  private authManager: OAuth2AuthManager;
+  private authManager?: OAuth2AuthManager;
+  private appClient?: TwitterApi;
+  private rateLimiter = new RateLimiter();
+  private cache = getResponseCache();
+  readonly account: string;
   
-  constructor() {
-    // Initialize OAuth 2.0 auth manager
+  constructor(account: string = getDefaultAccount()) {
+    this.account = validateAccountName(account);
+    
+    const bearerToken = process.env.X_BEARER_TOKEN;
+    if (bearerToken) {
+      this.appClient = new TwitterApi(bearerToken, { plugins: [this.rateLimiter] });
+    }
+    
+    // Initialize OAuth 2.0 auth manager, optional in app-only mode
     try {
-      this.authManager = new OAuth2AuthManager();
+      this.authManager = new OAuth2AuthManager(this.account);
     } catch (error) {
-      throw new Error(`OAuth 2.0 not configured. Please set X_CLIENT_ID and X_CLIENT_SECRET environment variables and run 'pnpm run setup-auth' to authenticate.`);
+      if (!this.appClient) {
+        throw new Error(`OAuth 2.0 not configured. Please set X_CLIENT_ID and X_CLIENT_SECRET environment variables and run 'pnpm run setup-auth' to authenticate, or set X_BEARER_TOKEN for read-only access to public data.`);
+      }
     }
   }
   
   private async getAuthenticatedClient(): Promise<TwitterApi> {
-    const client = await this.authManager.getAuthenticatedClient();
+    if (!this.authManager) {
+      throw new Error('This needs a logged-in X account, but the server runs in app-only mode (X_BEARER_TOKEN) without OAuth 2.0 credentials. Set X_CLIENT_ID and X_CLIENT_SECRET and authenticate to use personal tools.');
+    }
+    
+    const client = await this.authManager.getAuthenticatedClient([this.rateLimiter]);
     if (!client) {
-      throw new Error('Not authenticated. Please run "pnpm run setup-auth" to authenticate with X/Twitter.');
+      throw new Error(`Account "${this.account}" is not authenticated. Please run "pnpm run setup-auth -- --account ${this.account}" to authenticate with X/Twitter.`);
     }
     return client;
   }
   
-  async getUserProfile(username: string): Promise<UserV2 | null> {
+  /**
+   * Client for public data: the user's tokens when logged in, otherwise the app-only bearer token.
+   */
+  private async getReadClient(): Promise<TwitterApi> {
+    const userClient = await this.authManager?.getAuthenticatedClient([this.rateLimiter]);
+    if (userClient) {
+      return userClient;
+    }
+    return this.appClient || this.getAuthenticatedClient();
+  }
+  
+  /**
+   * Client for endpoints that only accept the app-only bearer token, even when a user is logged in.
+   */
+  private getAppClient(feature: string): TwitterApi {
+    if (!this.appClient) {
+      throw new Error(`${feature} only works with an app-only bearer token. Set X_BEARER_TOKEN to your app's bearer token.`);
+    }
+    return this.appClient;
+  }
+  
+  private cached<T>(resource: CacheResource, args: unknown[], cacheMode: CacheMode, fetch: () => Promise<T>): Promise<T> {
+    return this.cache.getOrFetch(this.account, resource, args, cacheMode, fetch);
+  }
+  
+  // Called after writes that change what a cached read would return
+  private invalidate(resource: CacheResource): void {
+    this.cache.clear({ account: this.account, resource });
+  }
+  
+  // Username to ID lookups come before most user requests, and the mapping almost never changes
+  private async getUserId(client: TwitterApi, username: string, cacheMode: CacheMode = 'use'): Promise<string> {
+    return this.cached('userId', [username.toLowerCase()], cacheMode, async () => {
+      const user = await client.v2.userByUsername(username);
+      if (!user.data) {
+        throw new Error(`User @${username} not found`);
+      }
+      return user.data.id;
+    });
+  }
+  
+  /**
+   * Walks pages starting at `cursor` until `limit` items are collected or the results run out.
+   * Page sizes are clamped to what the endpoint accepts, so when `limit` is below an endpoint's
+   * minimum page size the last page is returned whole: trimming it would make the returned
+   * cursor skip the dropped items.
+   */
+  private async fetchPages<T>(
+    limit: number,
+    cursor: string | undefined,
+    pageSize: { min: number; max: number },
+    fetchPage: (maxResults: number, token?: string) => Promise<RawPage<T>>
+  ): Promise<Page<T>> {
+    const target = Math.min(limit, MAX_PAGINATED_RESULTS);
+    const data: T[] = [];
+    let includes: ApiV2Includes | undefined;
+    let nextCursor = cursor;
+    
+    do {
+      const remaining = target - data.length;
+      const page = await fetchPage(Math.max(Math.min(remaining, pageSize.max), pageSize.min), nextCursor);
+      data.push(...(page.data || []));
+      if (page.includes) {
+        includes = mergeIncludes(includes || {}, page.includes);
+      }
+      nextCursor = page.meta?.next_token;
+    } while (nextCursor && data.length < target);
+    
+    return { data, nextCursor, includes };
+  }
+  
+  async getUserProfile(username: string, cacheMode: CacheMode = 'use'): Promise<UserV2 | null> {
     try {
-      const client = await this.getAuthenticatedClient();
-      const user = await client.v2.userByUsername(username, {
-        'user.fields': ['id', 'name', 'username', 'description', 'public_metrics', 'verified', 'created_at', 'profile_image_url']
+      const client = await this.getReadClient();
+      return await this.cached('profile', [username.toLowerCase()], cacheMode, async () => {
+        const user = await client.v2.userByUsername(username, {
+          'user.fields': ['id', 'name', 'username', 'description', 'public_metrics', 'verified', 'created_at', 'profile_image_url']
+        });
+        return user.data || null;
       });
-      return user.data || null;
     } catch (error) {
       if (error instanceof Error && error.message.includes('User not found')) {
         return null;
@@ -40,75 +289,228 @@ export class TwitterClient {
     }
   }
   
-  async getUserTimeline(username: string, maxResults: number = 10): Promise<TweetV2[]> {
+  async getUserTimeline(username: string, maxResults: number = 10, cursor?: string, cacheMode: CacheMode = 'use'): Promise<Page<TweetV2>> {
     try {
-      const client = await this.getAuthenticatedClient();
-      const user = await client.v2.userByUsername(username);
-      if (!user.data) {
-        throw new Error('User not found');
-      }
-      
-      const timeline = await client.v2.userTimeline(user.data.id, {
-        max_results: Math.min(maxResults, 100),
-        'tweet.fields': ['id', 'text', 'created_at', 'public_metrics', 'author_id'],
-        exclude: ['retweets', 'replies']
-      });
+      const client = await this.getReadClient();
+      const userId = await this.getUserId(client, username, cacheMode);
       
-      return timeline.data.data || [];
+      return await this.cached('timeline', ['user', userId, maxResults, cursor], cacheMode, () =>
+        this.fetchPages(maxResults, cursor, { min: 5, max: 100 }, async (pageSize, token) => {
+          const timeline = await client.v2.userTimeline(userId, {
+            max_results: pageSize,
+            pagination_token: token,
+            ...TWEET_FIELDS,
+            exclude: ['retweets', 'replies']
+          });
+          return timeline.data;
+        })
+      );
     } catch (error) {
       throw new Error(`Failed to fetch user timeline: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
   
-  async searchTweets(query: string, maxResults: number = 10): Promise<TweetV2[]> {
+  async searchTweets(query: string, maxResults: number = 10, cursor?: string, cacheMode: CacheMode = 'use', options: SearchOptions = {}): Promise<Page<TweetV2>> {
     try {
-      const client = await this.getAuthenticatedClient();
-      const searchResults = await client.v2.search(query, {
-        max_results: Math.min(maxResults, 100),
-        'tweet.fields': ['id', 'text', 'created_at', 'public_metrics', 'author_id']
-      });
+      // Full-archive search only accepts the app-only bearer token
+      const client = options.fullArchive ? this.getAppClient('Full-archive search') : await this.getReadClient();
       
-      return searchResults.data.data || [];
+      return await this.cached('search', [query, maxResults, cursor, options], cacheMode, () =>
+        this.fetchPages(maxResults, cursor, { min: 10, max: options.fullArchive ? 500 : 100 }, async (pageSize, token) => {
+          const params = {
+            max_results: pageSize,
+            next_token: token,
+            sort_order: options.sortOrder,
+            start_time: options.startTime,
+            end_time: options.endTime,
+            ...TWEET_FIELDS
+          };
+          const searchResults = options.fullArchive ? await client.v2.searchAll(query, params) : await client.v2.search(query, params);
+          return searchResults.data;
+        })
+      );
     } catch (error) {
       throw new Error(`Failed to search tweets: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
   
-  async getUserFollowers(username: string, maxResults: number = 10): Promise<UserV2[]> {
+  async getTweetCounts(query: string, granularity: CountGranularity = 'hour', options: Omit<SearchOptions, 'sortOrder'> = {}, cursor?: string, cacheMode: CacheMode = 'use'): Promise<TweetCounts> {
     try {
-      const client = await this.getAuthenticatedClient();
-      const user = await client.v2.userByUsername(username);
-      if (!user.data) {
-        throw new Error('User not found');
-      }
+      const client = this.getAppClient('Tweet counts');
       
-      const followers = await client.v2.followers(user.data.id, {
-        max_results: Math.min(maxResults, 1000),
-        'user.fields': ['id', 'name', 'username', 'description', 'public_metrics']
+      return await this.cached('search', ['counts', query, granularity, options, cursor], cacheMode, async () => {
+        const params = { granularity, start_time: options.startTime, end_time: options.endTime };
+        
+        if (!options.fullArchive) {
+          const response = await client.v2.tweetCountRecent(query, params);
+          return { counts: response.data || [], total: response.meta?.total_tweet_count || 0 };
+        }
+        
+        // Full-archive counts come in pages of up to 31 days; long windows continue with the cursor
+        const counts: TweetCount[] = [];
+        let total = 0;
+        let nextCursor = cursor;
+        let pages = 0;
+        do {
+          const response = await client.v2.tweetCountAll(query, { ...params, next_token: nextCursor });
+          counts.push(...(response.data || []));
+          total += response.meta?.total_tweet_count || 0;
+          nextCursor = response.meta?.next_token;
+        } while (nextCursor && ++pages < MAX_COUNT_PAGES);
+        
+        counts.sort((a, b) => a.start.localeCompare(b.start));
+        return { counts, total, nextCursor };
       });
+    } catch (error) {
+      throw new Error(`Failed to fetch tweet counts: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+  
+  async getUserFollowers(username: string, maxResults: number = 10, cursor?: string, cacheMode: CacheMode = 'use'): Promise<Page<UserV2>> {
+    try {
+      const client = await this.getReadClient();
+      const userId = await this.getUserId(client, username, cacheMode);
       
-      return followers.data || [];
+      return await this.cached('followers', ['followers', userId, maxResults, cursor], cacheMode, () =>
+        this.fetchPages(maxResults, cursor, { min: 1, max: 1000 }, (pageSize, token) =>
+          client.v2.followers(userId, {
+            max_results: pageSize,
+            pagination_token: token,
+            'user.fields': ['id', 'name', 'username', 'description', 'public_metrics']
+          })
+        )
+      );
     } catch (error) {
       throw new Error(`Failed to fetch followers: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
   
-  async getUserFollowing(username: string, maxResults: number = 10): Promise<UserV2[]> {
+  async getUserFollowing(username: string, maxResults: number = 10, cursor?: string, cacheMode: CacheMode = 'use'): Promise<Page<UserV2>> {
     try {
-      const client = await this.getAuthenticatedClient();
-      const user = await client.v2.userByUsername(username);
-      if (!user.data) {
-        throw new Error('User not found');
-      }
+      const client = await this.getReadClient();
+      const userId = await this.getUserId(client, username, cacheMode);
+      
+      return await this.cached('followers', ['following', userId, maxResults, cursor], cacheMode, () =>
+        this.fetchPages(maxResults, cursor, { min: 1, max: 1000 }, (pageSize, token) =>
+          client.v2.following(userId, {
+            max_results: pageSize,
+            pagination_token: token,
+            'user.fields': ['id', 'name', 'username', 'description', 'public_metrics']
+          })
+        )
+      );
+    } catch (error) {
+      throw new Error(`Failed to fetch following: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+  
+  async getUsers(usernames: string[], ids: string[], cacheMode: CacheMode = 'use'): Promise<LookupResult<UserV2>> {
+    try {
+      const client = await this.getReadClient();
+      const fields: Partial<UsersV2Params> = {
+        'user.fields': ['id', 'name', 'username', 'description', 'public_metrics', 'verified', 'created_at', 'profile_image_url', 'protected']
+      };
       
-      const following = await client.v2.following(user.data.id, {
-        max_results: Math.min(maxResults, 1000),
-        'user.fields': ['id', 'name', 'username', 'description', 'public_metrics']
+      return await this.cached('profile', ['batch', usernames.map(username => username.toLowerCase()), ids], cacheMode, async () => {
+        const result: LookupResult<UserV2> = { data: [], errors: [] };
+        const validUsernames = partitionValid(usernames, USERNAME_PATTERN, result.errors, 'username');
+        const validIds = partitionValid(ids, ID_PATTERN, result.errors, 'user ID');
+        
+        for (const response of [
+          validUsernames.length ? await client.v2.usersByUsernames(validUsernames, fields) : undefined,
+          validIds.length ? await client.v2.users(validIds, fields) : undefined
+        ]) {
+          result.data.push(...(response?.data || []));
+          result.errors.push(...(response?.errors || []).map(toLookupError));
+        }
+        
+        return result;
       });
+    } catch (error) {
+      throw new Error(`Failed to look up users: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+  
+  async getTweets(ids: string[], cacheMode: CacheMode = 'use'): Promise<LookupResult<TweetV2>> {
+    try {
+      const client = await this.getReadClient();
       
-      return following.data || [];
+      return await this.cached('tweets', [ids], cacheMode, async () => {
+        const result: LookupResult<TweetV2> = { data: [], errors: [] };
+        const validIds = partitionValid(ids, ID_PATTERN, result.errors, 'tweet ID');
+        
+        if (validIds.length) {
+          const response = await client.v2.tweets(validIds, TWEET_FIELDS);
+          result.data.push(...(response.data || []));
+          result.errors.push(...(response.errors || []).map(toLookupError));
+          result.includes = response.includes;
+        }
+        
+        return result;
+      });
     } catch (error) {
-      throw new Error(`Failed to fetch following: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw new Error(`Failed to look up tweets: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+  
+  formatLookupErrors(errors: LookupError[]): string {
+    if (!errors.length) {
+      return '';
+    }
+    
+    const lines = errors.map(error => `- ${error.value}: ${error.reason.replace('_', ' ')}${error.detail ? ` (${error.detail})` : ''}`);
+    return `\n\n**Not returned (${errors.length}):**\n${lines.join('\n')}`;
+  }
+  
+  async getConversation(tweetId: string, maxResults: number = 100, cacheMode: CacheMode = 'use'): Promise<{ root: TweetV2; replies: TweetV2[]; users: UserV2[] }> {
+    try {
+      const client = await this.getReadClient();
+      return await this.cached('conversation', [tweetId, maxResults], cacheMode, async () => {
+        const fields: Partial<Tweetv2FieldsParams> = {
+          'tweet.fields': ['id', 'text', 'created_at', 'public_metrics', 'author_id', 'conversation_id', 'referenced_tweets', 'in_reply_to_user_id'],
+          'user.fields': ['id', 'name', 'username'],
+          expansions: ['author_id']
+        };
+        
+        const tweet = await client.v2.singleTweet(tweetId, fields);
+        if (!tweet.data) {
+          throw new Error('Tweet not found');
+        }
+        
+        const conversationId = tweet.data.conversation_id || tweet.data.id;
+        const users = [...(tweet.includes?.users || [])];
+        
+        let root = tweet.data;
+        if (conversationId !== tweet.data.id) {
+          const rootResponse = await client.v2.singleTweet(conversationId, fields);
+          if (rootResponse.data) {
+            root = rootResponse.data;
+            users.push(...(rootResponse.includes?.users || []));
+          }
+        }
+        
+        // Recent search only covers the last 7 days of replies
+        const paginator = await client.v2.search(`conversation_id:${conversationId}`, {
+          ...fields,
+          max_results: Math.min(Math.max(maxResults, 10), 100)
+        });
+        while (!paginator.done && paginator.tweets.length < maxResults) {
+          await paginator.fetchNext();
+        }
+        
+        const replies = paginator.tweets.slice(0, maxResults);
+        
+        // The requested tweet may be older than the search window; make sure it is part of the tree
+        if (tweet.data.id !== root.id && !replies.some(reply => reply.id === tweet.data.id)) {
+          replies.push(tweet.data);
+        }
+        
+        users.push(...paginator.includes.users);
+        
+        return { root, replies, users };
+      });
+    } catch (error) {
+      throw new Error(`Failed to fetch conversation: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
   
@@ -126,21 +528,47 @@ ${user.description || 'No bio available'}
 - Created: ${user.created_at ? new Date(user.created_at).toLocaleDateString() : 'N/A'}`;
   }
   
-  formatTweets(tweets: TweetV2[]): string {
+  formatTweets(tweets: TweetV2[], includes?: ApiV2Includes): string {
     if (!tweets.length) {
       return 'No tweets found.';
     }
     
+    const resolver = new IncludesResolver(includes);
+    
     return tweets.map(tweet => {
       const metrics = tweet.public_metrics;
+      const { author, ...context } = resolver.resolve(tweet);
+      const contextLines = formatTweetContext(context).map(line => `${line}\n`).join('');
       return `**Tweet ID:** ${tweet.id}
+**Author:** ${author ? `${author.name} (@${author.username})` : tweet.author_id ? `User ${tweet.author_id}` : 'N/A'}
 **Created:** ${tweet.created_at ? new Date(tweet.created_at).toLocaleString() : 'N/A'}
 **Text:** ${tweet.text}
-**Engagement:** ❤️ ${metrics?.like_count || 0} | 🔄 ${metrics?.retweet_count || 0} | 💬 ${metrics?.reply_count || 0}
+${contextLines}**Engagement:** ❤️ ${metrics?.like_count || 0} | 🔄 ${metrics?.retweet_count || 0} | 💬 ${metrics?.reply_count || 0}
 ---`;
     }).join('\n\n');
   }
   
+  formatTweetCounts({ counts, total, nextCursor }: TweetCounts, granularity: CountGranularity): string {
+    if (!counts.length) {
+      return 'No tweet counts returned.';
+    }
+    
+    const { line, bucketsPerChar } = sparkline(counts.map(count => count.tweet_count));
+    const peak = counts.reduce((best, count) => count.tweet_count > best.tweet_count ? count : best);
+    const latest = counts[counts.length - 1];
+    const scale = bucketsPerChar > 1 ? `${bucketsPerChar} ${granularity}s` : granularity;
+    
+    return `**Total:** ${total.toLocaleString()} tweets in ${counts.length} ${granularity} buckets${nextCursor ? ' (part of the time window, continue with the cursor for the rest)' : ''}
+**From:** ${new Date(counts[0].start).toLocaleString()} **to** ${new Date(latest.end).toLocaleString()}
+**Volume** (one character per ${scale}): ${line}
+**Peak:** ${peak.tweet_count.toLocaleString()} tweets at ${new Date(peak.start).toLocaleString()}
+**Latest:** ${latest.tweet_count.toLocaleString()} tweets at ${new Date(latest.start).toLocaleString()}`;
+  }
+  
+  formatNextCursor(nextCursor?: string): string {
+    return nextCursor ? `\n\n**Next cursor:** ${nextCursor} (pass as \`cursor\` to fetch more)` : '';
+  }
+  
   formatUsers(users: UserV2[]): string {
     if (!users.length) {
       return 'No users found.';
@@ -154,39 +582,66 @@ Followers: ${metrics?.followers_count?.toLocaleString() || 'N/A'}`;
     }).join('\n\n---\n\n');
   }
   
+  getRateLimitStatus(): RateLimitBudget[] {
+    return this.rateLimiter.getStatus();
+  }
+  
+  formatRateLimitStatus(): string {
+    return `**Rate Limit Status:**\n\n${this.rateLimiter.formatStatus()}`;
+  }
+  
   // Personal data methods
   
   async isAuthenticationAvailable(): Promise<boolean> {
-    return await this.authManager.isAuthenticated();
+    return !!this.authManager && await this.authManager.isAuthenticated();
+  }
+  
+  async getAuthMode(): Promise<AuthMode | null> {
+    if (await this.isAuthenticationAvailable()) {
+      return 'user';
+    }
+    return this.appClient ? 'app' : null;
+  }
+  
+  // Undefined without stored tokens, or for tokens saved before granted scopes were recorded
+  async getGrantedScopes(): Promise<string[] | undefined> {
+    const tokens = await this.authManager?.loadTokens();
+    return tokens?.scopes;
   }
   
-  async getMyProfile(): Promise<UserV2> {
+  async getMyProfile(cacheMode: CacheMode = 'use'): Promise<UserV2> {
     try {
       const client = await this.getAuthenticatedClient();
-      const response = await client.v2.me({
-        'user.fields': ['id', 'name', 'username', 'description', 'public_metrics', 'verified', 'created_at', 'profile_image_url']
+      return await this.cached('me', [], cacheMode, async () => {
+        const response = await client.v2.me({
+          'user.fields': ['id', 'name', 'username', 'description', 'public_metrics', 'verified', 'created_at', 'profile_image_url']
+        });
+        
+        if (!response.data) {
+          throw new Error('Failed to fetch authenticated user profile');
+        }
+        
+        return response.data;
       });
-      
-      if (!response.data) {
-        throw new Error('Failed to fetch authenticated user profile');
-      }
-      
-      return response.data;
     } catch (error) {
       throw new Error(`Failed to fetch your profile: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
   
-  async getMyBookmarks(maxResults: number = 10): Promise<TweetV2[]> {
+  async getMyBookmarks(maxResults: number = 10, cursor?: string, cacheMode: CacheMode = 'use'): Promise<Page<TweetV2>> {
     try {
       const client = await this.getAuthenticatedClient();
-      const response = await client.v2.bookmarks({
-        max_results: Math.min(maxResults, 100),
-        'tweet.fields': ['id', 'text', 'created_at', 'public_metrics', 'author_id'],
-        expansions: ['author_id']
-      });
       
-      return response.data.data || [];
+      return await this.cached('bookmarks', [maxResults, cursor], cacheMode, () =>
+        this.fetchPages(maxResults, cursor, { min: 1, max: 100 }, async (pageSize, token) => {
+          const response = await client.v2.bookmarks({
+            max_results: pageSize,
+            pagination_token: token,
+            ...TWEET_FIELDS
+          });
+          return response.data;
+        })
+      );
     } catch (error) {
       throw new Error(`Failed to fetch bookmarks: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
@@ -196,6 +651,7 @@ Followers: ${metrics?.followers_count?.toLocaleString() || 'N/A'}`;
     try {
       const client = await this.getAuthenticatedClient();
       const response = await client.v2.bookmark(tweetId);
+      this.invalidate('bookmarks');
       return response.data?.bookmarked || false;
     } catch (error) {
       throw new Error(`Failed to add bookmark: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -206,24 +662,28 @@ Followers: ${metrics?.followers_count?.toLocaleString() || 'N/A'}`;
     try {
       const client = await this.getAuthenticatedClient();
       const response = await client.v2.deleteBookmark(tweetId);
+      this.invalidate('bookmarks');
       return response.data?.bookmarked === false;
     } catch (error) {
       throw new Error(`Failed to remove bookmark: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
   
-  async getMyLikes(maxResults: number = 10): Promise<TweetV2[]> {
+  async getMyLikes(maxResults: number = 10, cursor?: string, cacheMode: CacheMode = 'use'): Promise<Page<TweetV2>> {
     try {
       const client = await this.getAuthenticatedClient();
       const myProfile = await this.getMyProfile();
       
-      const response = await client.v2.userLikedTweets(myProfile.id, {
-        max_results: Math.min(maxResults, 100),
-        'tweet.fields': ['id', 'text', 'created_at', 'public_metrics', 'author_id'],
-        expansions: ['author_id']
-      });
-      
-      return response.data.data || [];
+      return await this.cached('likes', [maxResults, cursor], cacheMode, () =>
+        this.fetchPages(maxResults, cursor, { min: 10, max: 100 }, async (pageSize, token) => {
+          const response = await client.v2.userLikedTweets(myProfile.id, {
+            max_results: pageSize,
+            pagination_token: token,
+            ...TWEET_FIELDS
+          });
+          return response.data;
+        })
+      );
     } catch (error) {
       throw new Error(`Failed to fetch liked tweets: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
@@ -233,6 +693,7 @@ Followers: ${metrics?.followers_count?.toLocaleString() || 'N/A'}`;
     try {
       const client = await this.getAuthenticatedClient();
       const response = await client.v2.like(await this.getMyUserId(), tweetId);
+      this.invalidate('likes');
       return response.data?.liked || false;
     } catch (error) {
       throw new Error(`Failed to like tweet: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -243,22 +704,108 @@ Followers: ${metrics?.followers_count?.toLocaleString() || 'N/A'}`;
     try {
       const client = await this.getAuthenticatedClient();
       const response = await client.v2.unlike(await this.getMyUserId(), tweetId);
+      this.invalidate('likes');
       return response.data?.liked === false;
     } catch (error) {
       throw new Error(`Failed to unlike tweet: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
   
-  async getMyTimeline(maxResults: number = 10): Promise<TweetV2[]> {
+  async retweetTweet(tweetId: string): Promise<boolean> {
     try {
       const client = await this.getAuthenticatedClient();
-      const response = await client.v2.homeTimeline({
-        max_results: Math.min(maxResults, 100),
-        'tweet.fields': ['id', 'text', 'created_at', 'public_metrics', 'author_id'],
-        expansions: ['author_id']
-      });
+      const response = await client.v2.retweet(await this.getMyUserId(), tweetId);
+      this.invalidate('timeline');
+      this.invalidate('tweets');
+      return response.data?.retweeted || false;
+    } catch (error) {
+      throw new Error(`Failed to retweet: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+  
+  async unretweetTweet(tweetId: string): Promise<boolean> {
+    try {
+      const client = await this.getAuthenticatedClient();
+      const response = await client.v2.unretweet(await this.getMyUserId(), tweetId);
+      this.invalidate('timeline');
+      this.invalidate('tweets');
+      return response.data?.retweeted === false;
+    } catch (error) {
+      throw new Error(`Failed to undo retweet: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+  
+  // Engagement methods: who interacted with a single tweet
+  
+  async getRetweeters(tweetId: string, maxResults: number = 10, cursor?: string, cacheMode: CacheMode = 'use'): Promise<Page<UserV2>> {
+    try {
+      const client = await this.getReadClient();
+      
+      return await this.cached('tweets', ['retweeters', tweetId, maxResults, cursor], cacheMode, () =>
+        this.fetchPages(maxResults, cursor, { min: 1, max: 100 }, (pageSize, token) =>
+          client.v2.tweetRetweetedBy(tweetId, {
+            max_results: pageSize,
+            pagination_token: token,
+            'user.fields': ['id', 'name', 'username', 'description', 'public_metrics']
+          })
+        )
+      );
+    } catch (error) {
+      throw new Error(`Failed to fetch retweeters: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+  
+  async getLikingUsers(tweetId: string, maxResults: number = 10, cursor?: string, cacheMode: CacheMode = 'use'): Promise<Page<UserV2>> {
+    try {
+      const client = await this.getReadClient();
+      
+      return await this.cached('tweets', ['liking_users', tweetId, maxResults, cursor], cacheMode, () =>
+        this.fetchPages(maxResults, cursor, { min: 1, max: 100 }, (pageSize, token) =>
+          client.v2.tweetLikedBy(tweetId, {
+            max_results: pageSize,
+            pagination_token: token,
+            'user.fields': ['id', 'name', 'username', 'description', 'public_metrics']
+          })
+        )
+      );
+    } catch (error) {
+      throw new Error(`Failed to fetch liking users: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+  
+  async getQuoteTweets(tweetId: string, maxResults: number = 10, cursor?: string, cacheMode: CacheMode = 'use'): Promise<Page<TweetV2>> {
+    try {
+      const client = await this.getReadClient();
       
-      return response.data.data || [];
+      return await this.cached('tweets', ['quotes', tweetId, maxResults, cursor], cacheMode, () =>
+        this.fetchPages(maxResults, cursor, { min: 10, max: 100 }, async (pageSize, token) => {
+          const response = await client.v2.quotes(tweetId, {
+            max_results: pageSize,
+            pagination_token: token,
+            ...TWEET_FIELDS
+          });
+          return response.data;
+        })
+      );
+    } catch (error) {
+      throw new Error(`Failed to fetch quote tweets: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+  
+  async getMyTimeline(maxResults: number = 10, cursor?: string, cacheMode: CacheMode = 'use'): Promise<Page<TweetV2>> {
+    try {
+      const client = await this.getAuthenticatedClient();
+      
+      return await this.cached('timeline', ['home', maxResults, cursor], cacheMode, () =>
+        this.fetchPages(maxResults, cursor, { min: 1, max: 100 }, async (pageSize, token) => {
+          const response = await client.v2.homeTimeline({
+            max_results: pageSize,
+            pagination_token: token,
+            ...TWEET_FIELDS
+          });
+          return response.data;
+        })
+      );
     } catch (error) {
       throw new Error(`Failed to fetch home timeline: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
@@ -269,98 +816,531 @@ Followers: ${metrics?.followers_count?.toLocaleString() || 'N/A'}`;
     return profile.id;
   }
   
-  formatBookmarks(tweets: TweetV2[]): string {
+  // Relationship methods
+  
+  async followUser(username: string): Promise<{ following: boolean; pending: boolean }> {
+    try {
+      const client = await this.getAuthenticatedClient();
+      const userId = await this.getUserId(client, username);
+      
+      const response = await client.v2.follow(await this.getMyUserId(), userId);
+      this.invalidate('followers');
+      this.invalidate('relationships');
+      
+      return { following: response.data?.following || false, pending: response.data?.pending_follow || false };
+    } catch (error) {
+      throw new Error(`Failed to follow user: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+  
+  async unfollowUser(username: string): Promise<boolean> {
+    try {
+      const client = await this.getAuthenticatedClient();
+      const userId = await this.getUserId(client, username);
+      
+      const response = await client.v2.unfollow(await this.getMyUserId(), userId);
+      this.invalidate('followers');
+      this.invalidate('relationships');
+      
+      return response.data?.following === false;
+    } catch (error) {
+      throw new Error(`Failed to unfollow user: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+  
+  async muteUser(username: string): Promise<boolean> {
+    try {
+      const client = await this.getAuthenticatedClient();
+      const userId = await this.getUserId(client, username);
+      
+      const response = await client.v2.mute(await this.getMyUserId(), userId);
+      this.invalidate('relationships');
+      
+      return response.data?.muting || false;
+    } catch (error) {
+      throw new Error(`Failed to mute user: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+  
+  async unmuteUser(username: string): Promise<boolean> {
+    try {
+      const client = await this.getAuthenticatedClient();
+      const userId = await this.getUserId(client, username);
+      
+      const response = await client.v2.unmute(await this.getMyUserId(), userId);
+      this.invalidate('relationships');
+      
+      return response.data?.muting === false;
+    } catch (error) {
+      throw new Error(`Failed to unmute user: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+  
+  async blockUser(username: string): Promise<boolean> {
+    try {
+      const client = await this.getAuthenticatedClient();
+      const userId = await this.getUserId(client, username);
+      
+      const response = await client.v2.block(await this.getMyUserId(), userId);
+      // Blocking also removes follows in both directions
+      this.invalidate('followers');
+      this.invalidate('relationships');
+      
+      return response.data?.blocking || false;
+    } catch (error) {
+      throw new Error(`Failed to block user: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+  
+  async unblockUser(username: string): Promise<boolean> {
+    try {
+      const client = await this.getAuthenticatedClient();
+      const userId = await this.getUserId(client, username);
+      
+      const response = await client.v2.unblock(await this.getMyUserId(), userId);
+      this.invalidate('relationships');
+      
+      return response.data?.blocking === false;
+    } catch (error) {
+      throw new Error(`Failed to unblock user: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+  
+  async getMyMuted(maxResults: number = 10, cursor?: string, cacheMode: CacheMode = 'use'): Promise<Page<UserV2>> {
+    try {
+      const client = await this.getAuthenticatedClient();
+      const myUserId = await this.getMyUserId();
+      
+      return await this.cached('relationships', ['muted', maxResults, cursor], cacheMode, () =>
+        this.fetchPages(maxResults, cursor, { min: 1, max: 1000 }, async (pageSize, token) => {
+          const response = await client.v2.userMutingUsers(myUserId, {
+            max_results: pageSize,
+            pagination_token: token,
+            'user.fields': ['id', 'name', 'username', 'description', 'public_metrics']
+          });
+          return response.data;
+        })
+      );
+    } catch (error) {
+      throw new Error(`Failed to fetch muted accounts: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+  
+  async getMyBlocked(maxResults: number = 10, cursor?: string, cacheMode: CacheMode = 'use'): Promise<Page<UserV2>> {
+    try {
+      const client = await this.getAuthenticatedClient();
+      const myUserId = await this.getMyUserId();
+      
+      return await this.cached('relationships', ['blocked', maxResults, cursor], cacheMode, () =>
+        this.fetchPages(maxResults, cursor, { min: 1, max: 1000 }, async (pageSize, token) => {
+          const response = await client.v2.userBlockingUsers(myUserId, {
+            max_results: pageSize,
+            pagination_token: token,
+            'user.fields': ['id', 'name', 'username', 'description', 'public_metrics']
+          });
+          return response.data;
+        })
+      );
+    } catch (error) {
+      throw new Error(`Failed to fetch blocked accounts: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+  
+  /**
+   * Relationship between the authenticated account and `username` in both directions, from the
+   * `connection_status` X attaches to user lookups. X does not reveal whether the other account
+   * mutes or blocks this one, so only this account's mutes and blocks are reported.
+   */
+  async getRelationship(username: string, cacheMode: CacheMode = 'use'): Promise<{ user: UserV2; relationship: Relationship }> {
+    try {
+      const client = await this.getAuthenticatedClient();
+      
+      return await this.cached('relationships', ['status', username.toLowerCase()], cacheMode, async () => {
+        const response = await client.v2.userByUsername(username, {
+          'user.fields': ['id', 'name', 'username', 'connection_status']
+        });
+        if (!response.data) {
+          throw new Error(`User @${username} not found`);
+        }
+        
+        const status = response.data.connection_status || [];
+        return {
+          user: response.data,
+          relationship: {
+            following: status.includes('following'),
+            followed_by: status.includes('followed_by'),
+            follow_request_sent: status.includes('follow_request_sent'),
+            follow_request_received: status.includes('follow_request_received'),
+            muting: status.includes('muting'),
+            blocking: status.includes('blocking')
+          }
+        };
+      });
+    } catch (error) {
+      throw new Error(`Failed to fetch relationship: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+  
+  formatRelationship(myUsername: string, user: UserV2, relationship: Relationship): string {
+    const yesNo = (value: boolean) => value ? 'Yes' : 'No';
+    return `**@${myUsername} and @${user.username}** (${user.name})
+
+**@${myUsername} → @${user.username}:**
+- Following: ${yesNo(relationship.following)}${relationship.follow_request_sent ? ' (follow request pending)' : ''}
+- Muting: ${yesNo(relationship.muting)}
+- Blocking: ${yesNo(relationship.blocking)}
+
+**@${user.username} → @${myUsername}:**
+- Following: ${yesNo(relationship.followed_by)}${relationship.follow_request_received ? ' (follow request pending)' : ''}
+- Muting / blocking: not disclosed by X`;
+  }
+  
+  formatBookmarks(tweets: TweetV2[], includes?: ApiV2Includes): string {
     if (!tweets.length) {
       return 'No bookmarks found.';
     }
     
-    return `**Your Bookmarks (${tweets.length} tweets):**\n\n${this.formatTweets(tweets)}`;
+    return `**Your Bookmarks (${tweets.length} tweets):**\n\n${this.formatTweets(tweets, includes)}`;
   }
   
-  formatLikes(tweets: TweetV2[]): string {
+  formatLikes(tweets: TweetV2[], includes?: ApiV2Includes): string {
     if (!tweets.length) {
       return 'No liked tweets found.';
     }
     
-    return `**Your Liked Tweets (${tweets.length} tweets):**\n\n${this.formatTweets(tweets)}`;
+    return `**Your Liked Tweets (${tweets.length} tweets):**\n\n${this.formatTweets(tweets, includes)}`;
   }
   
-  formatMyTimeline(tweets: TweetV2[]): string {
+  formatMyTimeline(tweets: TweetV2[], includes?: ApiV2Includes): string {
     if (!tweets.length) {
       return 'No tweets in your timeline.';
     }
     
-    return `**Your Home Timeline (${tweets.length} tweets):**\n\n${this.formatTweets(tweets)}`;
+    return `**Your Home Timeline (${tweets.length} tweets):**\n\n${this.formatTweets(tweets, includes)}`;
   }
   
-  // List management methods
+  // Direct message methods
   
-  async getMyLists(): Promise<any[]> {
+  // Recent DM events across all conversations; X keeps 30 days of them
+  async getDmEvents(maxResults: number = 100, cursor?: string, cacheMode: CacheMode = 'use'): Promise<Page<DmEvent>> {
     try {
       const client = await this.getAuthenticatedClient();
-      const response = await client.v2.listsOwned(await this.getMyUserId(), {
-        max_results: 100,
-        'list.fields': ['description', 'member_count', 'follower_count', 'private', 'created_at']
-      });
       
-      const lists = [];
-      for await (const list of response) {
-        lists.push(list);
+      return await this.cached('dms', ['all', maxResults, cursor], cacheMode, () =>
+        this.fetchPages(maxResults, cursor, { min: 1, max: 100 }, async (pageSize, token) => {
+          const response = await client.v2.listDmEvents({
+            max_results: pageSize,
+            pagination_token: token,
+            event_types: 'MessageCreate',
+            ...DM_EVENT_FIELDS
+          });
+          return response.data;
+        })
+      );
+    } catch (error) {
+      throw new Error(`Failed to fetch DM events: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+  
+  async getDmConversation(target: DmTarget, maxResults: number = 20, cursor?: string, cacheMode: CacheMode = 'use'): Promise<Page<DmEvent>> {
+    try {
+      const client = await this.getAuthenticatedClient();
+      const participantId = target.username ? await this.getUserId(client, target.username, cacheMode) : undefined;
+      
+      return await this.cached('dms', [participantId || target.conversationId, maxResults, cursor], cacheMode, () =>
+        this.fetchPages(maxResults, cursor, { min: 1, max: 100 }, async (pageSize, token) => {
+          const params = {
+            max_results: pageSize,
+            pagination_token: token,
+            event_types: 'MessageCreate',
+            ...DM_EVENT_FIELDS
+          };
+          const response = participantId
+            ? await client.v2.listDmEventsWithParticipant(participantId, params)
+            : await client.v2.listDmEventsOfConversation(target.conversationId!, params);
+          return response.data;
+        })
+      );
+    } catch (error) {
+      throw new Error(`Failed to fetch DM conversation: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+  
+  async sendDm(target: DmTarget, text: string | undefined, media?: MediaFile): Promise<{ dm_conversation_id: string; dm_event_id: string }> {
+    try {
+      const client = await this.getAuthenticatedClient();
+      const attachments: [{ media_id: string }] | undefined = media
+        ? [{ media_id: await this.uploadMediaChunked(client, media, 'dm') }]
+        : undefined;
+      const message = { text: text || undefined, attachments };
+      
+      const response = target.username
+        ? await client.v2.sendDmToParticipant(await this.getUserId(client, target.username), message)
+        : await client.v2.sendDmInConversation(target.conversationId!, message);
+      this.invalidate('dms');
+      
+      return response;
+    } catch (error) {
+      throw new Error(`Failed to send DM: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+  
+  // Tweet publishing methods
+  
+  async createTweet(text: string, media: MediaFile[] = []): Promise<{ id: string; text: string }> {
+    try {
+      const client = await this.getAuthenticatedClient();
+      const mediaPayload = await this.uploadMediaFiles(client, media);
+      const response = await client.v2.tweet(text, mediaPayload);
+      
+      if (!response.data) {
+        throw new Error('No tweet returned');
       }
       
-      return lists;
+      this.invalidate('timeline');
+      this.invalidate('tweets');
+      
+      return response.data;
     } catch (error) {
-      throw new Error(`Failed to fetch your lists: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw new Error(`Failed to create tweet: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
   
-  async getList(listId: string): Promise<any> {
+  async replyToTweet(tweetId: string, text: string, media: MediaFile[] = []): Promise<{ id: string; text: string }> {
     try {
       const client = await this.getAuthenticatedClient();
-      const response = await client.v2.list(listId, {
-        'list.fields': ['description', 'member_count', 'follower_count', 'private', 'created_at']
-      });
+      const mediaPayload = await this.uploadMediaFiles(client, media);
+      const response = await client.v2.reply(text, tweetId, mediaPayload);
       
       if (!response.data) {
-        throw new Error('List not found');
+        throw new Error('No tweet returned');
       }
       
+      this.invalidate('timeline');
+      this.invalidate('tweets');
+      
       return response.data;
     } catch (error) {
-      throw new Error(`Failed to fetch list: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw new Error(`Failed to reply to tweet: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
   
-  async getListTweets(listId: string, maxResults: number = 10): Promise<TweetV2[]> {
+  async quoteTweet(tweetId: string, text: string, media: MediaFile[] = []): Promise<{ id: string; text: string }> {
     try {
       const client = await this.getAuthenticatedClient();
-      const response = await client.v2.listTweets(listId, {
-        max_results: Math.min(maxResults, 100),
-        'tweet.fields': ['id', 'text', 'created_at', 'public_metrics', 'author_id'],
-        expansions: ['author_id']
-      });
+      const mediaPayload = await this.uploadMediaFiles(client, media);
+      const response = await client.v2.quote(text, tweetId, mediaPayload);
       
-      return response.data.data || [];
+      if (!response.data) {
+        throw new Error('No tweet returned');
+      }
+      
+      this.invalidate('timeline');
+      this.invalidate('tweets');
+      
+      return response.data;
     } catch (error) {
-      throw new Error(`Failed to fetch list tweets: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw new Error(`Failed to quote tweet: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
   
-  async getListMembers(listId: string, maxResults: number = 10): Promise<UserV2[]> {
+  async postThread(texts: string[]): Promise<{ posted: Array<{ id: string; text: string }>; error?: string }> {
+    const posted: Array<{ id: string; text: string }> = [];
+    
     try {
       const client = await this.getAuthenticatedClient();
-      const response = await client.v2.listMembers(listId, {
-        max_results: Math.min(maxResults, 100),
-        'user.fields': ['id', 'name', 'username', 'description', 'public_metrics', 'verified']
-      });
       
-      const members = [];
-      for await (const member of response) {
-        members.push(member);
-        if (members.length >= maxResults) break;
+      for (const text of texts) {
+        const previous = posted[posted.length - 1];
+        const response = previous ? await client.v2.reply(text, previous.id) : await client.v2.tweet(text);
+        
+        if (!response.data) {
+          throw new Error('No tweet returned');
+        }
+        
+        posted.push(response.data);
       }
       
-      return members;
+      return { posted };
+    } catch (error) {
+      // Keep what already went out so the caller can report or roll it back
+      return {
+        posted,
+        error: `Failed to post tweet ${posted.length + 1} of ${texts.length}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      };
+    } finally {
+      if (posted.length) {
+        this.invalidate('timeline');
+        this.invalidate('tweets');
+      }
+    }
+  }
+  
+  async deleteTweet(tweetId: string): Promise<boolean> {
+    try {
+      const client = await this.getAuthenticatedClient();
+      const response = await client.v2.deleteTweet(tweetId);
+      this.invalidate('timeline');
+      this.invalidate('tweets');
+      return response.data?.deleted || false;
+    } catch (error) {
+      throw new Error(`Failed to delete tweet: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+  
+  // Media upload methods
+  
+  private async uploadMediaFiles(client: TwitterApi, media: MediaFile[]): Promise<Partial<SendTweetV2Params>> {
+    if (!media.length) {
+      return {};
+    }
+    if (media.length > MAX_MEDIA_PER_TWEET) {
+      throw new Error(`A tweet can have at most ${MAX_MEDIA_PER_TWEET} media attachments`);
+    }
+    
+    const mediaIds: string[] = [];
+    for (const file of media) {
+      try {
+        mediaIds.push(await this.uploadMediaChunked(client, file));
+      } catch (error) {
+        throw new Error(`Media upload failed for ${file.label}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+    
+    return { media: { media_ids: toMediaIds(mediaIds) } };
+  }
+  
+  private async uploadMediaChunked(client: TwitterApi, file: MediaFile, purpose: 'tweet' | 'dm' = 'tweet'): Promise<string> {
+    // INIT
+    const init = await client.v2.post('media/upload/initialize', {
+      media_type: file.mimeType,
+      // DM attachments use the matching dm_image, dm_gif or dm_video category
+      media_category: purpose === 'dm' ? file.category.replace('tweet_', 'dm_') : file.category,
+      total_bytes: file.buffer.length
+    });
+    const mediaId: string = init.data.id;
+    
+    // APPEND
+    const chunkSize = 1024 * 1024;
+    for (let index = 0; index * chunkSize < file.buffer.length; index++) {
+      const chunk = file.buffer.subarray(index * chunkSize, (index + 1) * chunkSize);
+      await client.v2.post(`media/upload/${mediaId}/append`, {
+        segment_index: index,
+        media: Buffer.from(chunk)
+      }, { forceBodyMode: 'form-data' });
+    }
+    
+    // FINALIZE
+    const finalize = await client.v2.post(`media/upload/${mediaId}/finalize`);
+    
+    // STATUS polling for async processed media (GIFs and video)
+    let processingInfo = finalize.data?.processing_info;
+    const deadline = Date.now() + 10 * 60 * 1000;
+    while (processingInfo && processingInfo.state !== 'succeeded') {
+      if (processingInfo.state === 'failed') {
+        throw new Error(`Media processing failed: ${processingInfo.error?.message || 'Unknown error'}`);
+      }
+      if (Date.now() > deadline) {
+        throw new Error('Media processing timed out');
+      }
+      
+      const waitSecs = Math.max(processingInfo.check_after_secs || 1, 1);
+      await new Promise(resolve => setTimeout(resolve, waitSecs * 1000));
+      
+      const status = await client.v2.get('media/upload', { command: 'STATUS', media_id: mediaId });
+      processingInfo = status.data?.processing_info;
+    }
+    
+    if (file.altText) {
+      await client.v2.createMediaMetadata(mediaId, { alt_text: { text: file.altText } });
+    }
+    
+    return mediaId;
+  }
+  
+  formatPostedTweet(tweet: { id: string; text: string }): string {
+    return `**Tweet ID:** ${tweet.id}
+**URL:** https://x.com/i/web/status/${tweet.id}
+**Text:** ${tweet.text}`;
+  }
+  
+  // List management methods
+  
+  async getMyLists(cacheMode: CacheMode = 'use'): Promise<any[]> {
+    try {
+      const client = await this.getAuthenticatedClient();
+      const userId = await this.getMyUserId();
+      
+      return await this.cached('lists', ['owned'], cacheMode, async () => {
+        const response = await client.v2.listsOwned(userId, {
+          max_results: 100,
+          'list.fields': ['description', 'member_count', 'follower_count', 'private', 'created_at']
+        });
+        
+        const lists = [];
+        for await (const list of response) {
+          lists.push(list);
+        }
+        
+        return lists;
+      });
+    } catch (error) {
+      throw new Error(`Failed to fetch your lists: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+  
+  async getList(listId: string, cacheMode: CacheMode = 'use'): Promise<any> {
+    try {
+      const client = await this.getAuthenticatedClient();
+      return await this.cached('lists', ['list', listId], cacheMode, async () => {
+        const response = await client.v2.list(listId, {
+          'list.fields': ['description', 'member_count', 'follower_count', 'private', 'created_at']
+        });
+        
+        if (!response.data) {
+          throw new Error('List not found');
+        }
+        
+        return response.data;
+      });
+    } catch (error) {
+      throw new Error(`Failed to fetch list: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+  
+  async getListTweets(listId: string, maxResults: number = 10, cursor?: string, cacheMode: CacheMode = 'use'): Promise<Page<TweetV2>> {
+    try {
+      const client = await this.getAuthenticatedClient();
+      
+      return await this.cached('timeline', ['list', listId, maxResults, cursor], cacheMode, () =>
+        this.fetchPages(maxResults, cursor, { min: 1, max: 100 }, async (pageSize, token) => {
+          const response = await client.v2.listTweets(listId, {
+            max_results: pageSize,
+            pagination_token: token,
+            ...TWEET_FIELDS
+          });
+          return response.data;
+        })
+      );
+    } catch (error) {
+      throw new Error(`Failed to fetch list tweets: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+  
+  async getListMembers(listId: string, maxResults: number = 10, cursor?: string, cacheMode: CacheMode = 'use'): Promise<Page<UserV2>> {
+    try {
+      const client = await this.getAuthenticatedClient();
+      
+      return await this.cached('lists', ['members', listId, maxResults, cursor], cacheMode, () =>
+        this.fetchPages(maxResults, cursor, { min: 1, max: 100 }, async (pageSize, token) => {
+          const response = await client.v2.listMembers(listId, {
+            max_results: pageSize,
+            pagination_token: token,
+            'user.fields': ['id', 'name', 'username', 'description', 'public_metrics', 'verified']
+          });
+          return response.data;
+        })
+      );
     } catch (error) {
       throw new Error(`Failed to fetch list members: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
@@ -374,6 +1354,7 @@ Followers: ${metrics?.followers_count?.toLocaleString() || 'N/A'}`;
         description,
         private: isPrivate
       });
+      this.invalidate('lists');
       
       if (!response.data) {
         throw new Error('Failed to create list');
@@ -395,6 +1376,7 @@ Followers: ${metrics?.followers_count?.toLocaleString() || 'N/A'}`;
       if (isPrivate !== undefined) updateData.private = isPrivate;
       
       const response = await client.v2.updateList(listId, updateData);
+      this.invalidate('lists');
       
       if (!response.data?.updated) {
         throw new Error('Failed to update list');
@@ -410,6 +1392,7 @@ Followers: ${metrics?.followers_count?.toLocaleString() || 'N/A'}`;
     try {
       const client = await this.getAuthenticatedClient();
       const response = await client.v2.removeList(listId);
+      this.invalidate('lists');
       
       return response.data?.deleted || false;
     } catch (error) {
@@ -420,14 +1403,10 @@ Followers: ${metrics?.followers_count?.toLocaleString() || 'N/A'}`;
   async addListMember(listId: string, username: string): Promise<boolean> {
     try {
       const client = await this.getAuthenticatedClient();
+      const userId = await this.getUserId(client, username);
       
-      // Get user ID from username
-      const userResponse = await client.v2.userByUsername(username);
-      if (!userResponse.data) {
-        throw new Error(`User @${username} not found`);
-      }
-      
-      const response = await client.v2.addListMember(listId, userResponse.data.id);
+      const response = await client.v2.addListMember(listId, userId);
+      this.invalidate('lists');
       
       return response.data?.is_member || false;
     } catch (error) {
@@ -438,14 +1417,10 @@ Followers: ${metrics?.followers_count?.toLocaleString() || 'N/A'}`;
   async removeListMember(listId: string, username: string): Promise<boolean> {
     try {
       const client = await this.getAuthenticatedClient();
+      const userId = await this.getUserId(client, username);
       
-      // Get user ID from username
-      const userResponse = await client.v2.userByUsername(username);
-      if (!userResponse.data) {
-        throw new Error(`User @${username} not found`);
-      }
-      
-      const response = await client.v2.removeListMember(listId, userResponse.data.id);
+      const response = await client.v2.removeListMember(listId, userId);
+      this.invalidate('lists');
       
       return response.data?.is_member === false;
     } catch (error) {
@@ -480,12 +1455,12 @@ ${list.description || 'No description'}
 - Created: ${list.created_at ? new Date(list.created_at).toLocaleDateString() : 'N/A'}`;
   }
   
-  formatListTweets(tweets: TweetV2[], listName: string): string {
+  formatListTweets(tweets: TweetV2[], listName: string, includes?: ApiV2Includes): string {
     if (!tweets.length) {
       return `No tweets found in list "${listName}".`;
     }
     
-    return `**Tweets from "${listName}" (${tweets.length} tweets):**\n\n${this.formatTweets(tweets)}`;
+    return `**Tweets from "${listName}" (${tweets.length} tweets):**\n\n${this.formatTweets(tweets, includes)}`;
   }
   
   formatListMembers(members: UserV2[], listName: string): string {
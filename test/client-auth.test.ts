@@ -0,0 +1,89 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, IncomingMessage, Server } from 'http';
+import { AddressInfo } from 'net';
+import { ClientAuthConfig, ClientAuthError, ClientAuthenticator } from '../src/client-auth.js';
+
+const BASE_URL = 'http://localhost:3001';
+const API_KEY = 'test-api-key-0123456789';
+
+function request(token: string): IncomingMessage {
+  return { headers: { authorization: `Bearer ${token}` } } as IncomingMessage;
+}
+
+describe('ClientAuthenticator', () => {
+  let introspectionServer: Server;
+  let introspectionEndpoint: string;
+  
+  // Answers for each token; "slow" is never answered
+  before(async () => {
+    introspectionServer = createServer(async (req, res) => {
+      let body = '';
+      for await (const chunk of req) {
+        body += chunk;
+      }
+      const token = new URLSearchParams(body).get('token');
+      if (token === 'slow') {
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(token === 'active'
+        ? { active: true, client_id: 'oauth-client', scope: 'mcp', aud: `${BASE_URL}/mcp` }
+        : { active: false }));
+    });
+    await new Promise<void>(resolve => introspectionServer.listen(0, '127.0.0.1', resolve));
+    introspectionEndpoint = `http://127.0.0.1:${(introspectionServer.address() as AddressInfo).port}/introspect`;
+  });
+  
+  after(() => {
+    introspectionServer.closeAllConnections();
+    introspectionServer.close();
+  });
+  
+  function createAuthenticator(): ClientAuthenticator {
+    const config: ClientAuthConfig = {
+      apiKeys: [{ name: 'tester', key: API_KEY, allowedTools: ['search_tweets'] }],
+      oauth: {
+        issuer: 'https://auth.example.com',
+        introspectionEndpoint,
+        clientId: 'x-profile-mcp',
+        clientSecret: 'introspection-secret',
+        allowMissingAudience: false,
+        introspectionTimeoutSeconds: 0.2,
+        requiredScopes: ['mcp'],
+        allowedTools: ['*']
+      }
+    };
+    return new ClientAuthenticator(config, BASE_URL);
+  }
+  
+  it('accepts API keys without introspection', async () => {
+    const authInfo = await createAuthenticator().authenticate(request(API_KEY));
+    
+    assert.equal(authInfo.clientId, 'tester');
+    assert.deepEqual(authInfo.extra?.allowedTools, ['search_tweets']);
+  });
+  
+  it('accepts active access tokens issued for this server', async () => {
+    const authInfo = await createAuthenticator().authenticate(request('active'));
+    
+    assert.equal(authInfo.clientId, 'oauth-client');
+    assert.deepEqual(authInfo.scopes, ['mcp']);
+  });
+  
+  it('rejects inactive access tokens with 401', async () => {
+    await assert.rejects(createAuthenticator().authenticate(request('revoked')), (error: ClientAuthError) => {
+      assert.equal(error.status, 401);
+      assert.equal(error.code, 'invalid_token');
+      return true;
+    });
+  });
+  
+  it('answers 503 when the introspection endpoint does not respond in time', async () => {
+    await assert.rejects(createAuthenticator().authenticate(request('slow')), (error: ClientAuthError) => {
+      assert.equal(error.status, 503);
+      assert.equal(error.code, 'temporarily_unavailable');
+      return true;
+    });
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { TweetV2 } from 'twitter-api-v2';
+import { buildConversationTree, countConversationReplies, formatConversationTree } from '../src/conversation.js';
+
+function tweet(id: string, createdAt: string, parentId?: string): TweetV2 {
+  return {
+    id,
+    text: `tweet ${id}`,
+    edit_history_tweet_ids: [id],
+    author_id: `author-${id}`,
+    created_at: createdAt,
+    referenced_tweets: parentId ? [{ type: 'replied_to', id: parentId }] : undefined
+  };
+}
+
+const ROOT = tweet('1', '2026-01-01T10:00:00.000Z');
+
+describe('buildConversationTree', () => {
+  it('nests replies under the tweet they reply to', () => {
+    const tree = buildConversationTree(ROOT, [
+      tweet('2', '2026-01-01T10:01:00.000Z', '1'),
+      tweet('3', '2026-01-01T10:02:00.000Z', '2')
+    ], [{ id: 'author-3', name: 'Three', username: 'three' }]);
+    
+    assert.deepEqual(tree.replies.map(reply => reply.id), ['2']);
+    assert.deepEqual(tree.replies[0].replies.map(reply => reply.id), ['3']);
+    assert.equal(tree.replies[0].replies[0].author_username, 'three');
+    assert.equal(countConversationReplies(tree), 2);
+  });
+  
+  it('attaches replies to unavailable tweets to the root and flags them', () => {
+    const tree = buildConversationTree(ROOT, [
+      tweet('2', '2026-01-01T10:01:00.000Z', '1'),
+      tweet('4', '2026-01-01T10:03:00.000Z', 'deleted')
+    ]);
+    
+    assert.deepEqual(tree.replies.map(reply => [reply.id, !!reply.parent_missing]), [['2', false], ['4', true]]);
+    assert.match(formatConversationTree(tree), /ID: 4, .*\) _\(reply to an unavailable tweet\)_/);
+  });
+  
+  it('keeps one node per tweet when a reply is returned twice', () => {
+    const reply = tweet('2', '2026-01-01T10:01:00.000Z', '1');
+    const tree = buildConversationTree(ROOT, [reply, { ...reply }]);
+    
+    assert.equal(tree.replies.length, 1);
+    assert.equal(countConversationReplies(tree), 1);
+  });
+  
+  it('leaves the root out of its own replies', () => {
+    const tree = buildConversationTree(ROOT, [ROOT, tweet('2', '2026-01-01T10:01:00.000Z', '1')]);
+    
+    assert.deepEqual(tree.replies.map(reply => reply.id), ['2']);
+  });
+  
+  it('sorts siblings by creation time', () => {
+    const tree = buildConversationTree(ROOT, [
+      tweet('4', '2026-01-01T10:04:00.000Z', '1'),
+      tweet('2', '2026-01-01T10:02:00.000Z', '1'),
+      tweet('6', '2026-01-01T10:06:00.000Z', '2'),
+      tweet('5', '2026-01-01T10:05:00.000Z', '2'),
+      tweet('3', '2026-01-01T10:03:00.000Z', '1')
+    ]);
+    
+    assert.deepEqual(tree.replies.map(reply => reply.id), ['2', '3', '4']);
+    assert.deepEqual(tree.replies[0].replies.map(reply => reply.id), ['5', '6']);
+  });
+});
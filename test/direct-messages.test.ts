@@ -0,0 +1,60 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { DmEvent, DmMessage, summarizeDmConversations, toDmMessages } from '../src/direct-messages.js';
+
+const ME = '100';
+
+function message(id: string, conversationId: string, senderId: string, username?: string): DmMessage {
+  return { id, dm_conversation_id: conversationId, sender: { id: senderId, ...(username ? { username } : {}) }, text: `message ${id}` };
+}
+
+describe('toDmMessages', () => {
+  it('keeps only messages and resolves their sender', () => {
+    const events = [
+      { id: '1', event_type: 'MessageCreate', text: 'hi', sender_id: '200', dm_conversation_id: '100-200' },
+      { id: '2', event_type: 'ParticipantsJoin', dm_conversation_id: 'group' }
+    ] as DmEvent[];
+    
+    const messages = toDmMessages(events, { users: [{ id: '200', name: 'Bob', username: 'bob' }] });
+    
+    assert.deepEqual(messages, [{
+      id: '1',
+      dm_conversation_id: '100-200',
+      sender: { id: '200', username: 'bob', name: 'Bob' },
+      text: 'hi',
+      created_at: undefined
+    }]);
+  });
+});
+
+describe('summarizeDmConversations', () => {
+  it('takes the other side of a one-to-one conversation from its ID', () => {
+    const [conversation] = summarizeDmConversations([message('1', '100-200', ME)], ME);
+    
+    assert.deepEqual(conversation.participants, [{ id: '200' }]);
+  });
+  
+  it('fills in the other participant once they have written', () => {
+    const [conversation] = summarizeDmConversations([
+      message('2', '200-100', ME),
+      message('1', '200-100', '200', 'bob')
+    ], ME);
+    
+    assert.deepEqual(conversation.participants, [{ id: '200', username: 'bob' }]);
+    assert.equal(conversation.message_count, 2);
+    assert.equal(conversation.last_message.id, '2');
+  });
+  
+  it('collects the senders of group conversations, most recently active first', () => {
+    const conversations = summarizeDmConversations([
+      message('4', 'group', '300', 'carol'),
+      message('3', '100-200', '200', 'bob'),
+      message('2', 'group', '400', 'dave'),
+      message('1', 'group', ME)
+    ], ME);
+    
+    assert.deepEqual(conversations.map(conversation => conversation.dm_conversation_id), ['group', '100-200']);
+    assert.deepEqual(conversations[0].participants.map(participant => participant.username), ['carol', 'dave']);
+    assert.equal(conversations[0].message_count, 3);
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'net';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { McpHttpServer } from '../src/http-server.js';
+
+const API_KEY = 'test-api-key-0123456789';
+
+const INITIALIZE = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'test', version: '1.0.0' } }
+};
+
+describe('McpHttpServer', () => {
+  let httpServer: McpHttpServer | undefined;
+  let closedServers = 0;
+  
+  afterEach(async () => {
+    await httpServer?.close();
+    httpServer = undefined;
+    closedServers = 0;
+  });
+  
+  async function start(sessionIdleTimeoutMs = 60 * 1000): Promise<string> {
+    httpServer = new McpHttpServer(() => {
+      const server = new Server({ name: 'test', version: '1.0.0' }, { capabilities: {} });
+      server.onclose = () => closedServers++;
+      return server;
+    }, {
+      host: '127.0.0.1',
+      port: 0,
+      auth: { apiKeys: [{ name: 'tester', key: API_KEY, allowedTools: ['*'] }] },
+      sessionIdleTimeoutMs
+    });
+    await httpServer.start();
+    
+    const { port } = (httpServer as unknown as { httpServer: { address(): AddressInfo } }).httpServer.address();
+    return `http://127.0.0.1:${port}/mcp`;
+  }
+  
+  function post(url: string, body: string, headers: Record<string, string> = {}) {
+    return fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream', ...headers },
+      body
+    });
+  }
+  
+  it('rejects missing credentials before reading the body', async () => {
+    const url = await start();
+    const response = await post(url, 'not json');
+    
+    assert.equal(response.status, 401);
+    assert.match(response.headers.get('www-authenticate') || '', /^Bearer error="invalid_token"/);
+  });
+  
+  it('parses the body of authenticated requests', async () => {
+    const url = await start();
+    const response = await post(url, 'not json', { Authorization: `Bearer ${API_KEY}` });
+    
+    assert.equal(response.status, 400);
+  });
+  
+  it('rejects bodies over the size limit', async () => {
+    const url = await start();
+    const response = await post(url, JSON.stringify({ data: 'a'.repeat(5 * 1024 * 1024) }), { Authorization: `Bearer ${API_KEY}` });
+    
+    assert.equal(response.status, 413);
+    const { error } = await response.json() as { error: { message: string } };
+    assert.match(error.message, /X_MEDIA_DIR/);
+  });
+  
+  it('closes idle Streamable HTTP sessions', async () => {
+    const url = await start(100);
+    const initialized = await post(url, JSON.stringify(INITIALIZE), { Authorization: `Bearer ${API_KEY}` });
+    await initialized.text();
+    const sessionId = initialized.headers.get('mcp-session-id');
+    assert.ok(sessionId);
+    
+    await new Promise(resolve => setTimeout(resolve, 400));
+    
+    const ping = await post(url, JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'ping' }), {
+      Authorization: `Bearer ${API_KEY}`,
+      'Mcp-Session-Id': sessionId
+    });
+    assert.equal(ping.status, 404);
+    assert.equal(closedServers, 1);
+  });
+});
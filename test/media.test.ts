@@ -0,0 +1,106 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { isAnimatedGif, readVideoDuration, sniffMimeType } from '../src/media.js';
+
+function box(type: string, ...payload: Buffer[]): Buffer {
+  const body = Buffer.concat(payload);
+  const header = Buffer.alloc(8);
+  header.writeUInt32BE(8 + body.length);
+  header.write(type, 4, 'latin1');
+  return Buffer.concat([header, body]);
+}
+
+// Box with the 64-bit size form: size 1, then the real size after the type
+function largeBox(type: string, ...payload: Buffer[]): Buffer {
+  const body = Buffer.concat(payload);
+  const header = Buffer.alloc(16);
+  header.writeUInt32BE(1);
+  header.write(type, 4, 'latin1');
+  header.writeBigUInt64BE(BigInt(16 + body.length), 8);
+  return Buffer.concat([header, body]);
+}
+
+function mvhd(version: 0 | 1, timescale: number, duration: number): Buffer {
+  if (version === 1) {
+    const payload = Buffer.alloc(32);
+    payload[0] = 1;
+    payload.writeUInt32BE(timescale, 20);
+    payload.writeBigUInt64BE(BigInt(duration), 24);
+    return box('mvhd', payload);
+  }
+  const payload = Buffer.alloc(20);
+  payload.writeUInt32BE(timescale, 12);
+  payload.writeUInt32BE(duration, 16);
+  return box('mvhd', payload);
+}
+
+const FTYP = box('ftyp', Buffer.from('isom\0\0\0\0', 'latin1'));
+
+describe('sniffMimeType', () => {
+  it('detects formats from their signature', () => {
+    assert.equal(sniffMimeType(Buffer.from([0xff, 0xd8, 0xff, 0xe0])), 'image/jpeg');
+    assert.equal(sniffMimeType(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0])), 'image/png');
+    assert.equal(sniffMimeType(Buffer.from('GIF89a\x01\x00', 'latin1')), 'image/gif');
+    assert.equal(sniffMimeType(Buffer.from('RIFF\x24\x00\x00\x00WEBPVP8 ', 'latin1')), 'image/webp');
+    assert.equal(sniffMimeType(FTYP), 'video/mp4');
+    assert.equal(sniffMimeType(box('ftyp', Buffer.from('qt  ', 'latin1'))), 'video/quicktime');
+  });
+  
+  it('rejects unknown and truncated data', () => {
+    assert.equal(sniffMimeType(Buffer.from('%PDF-1.7')), null);
+    assert.equal(sniffMimeType(Buffer.from([0xff, 0xd8])), null);
+    assert.equal(sniffMimeType(Buffer.from([0x89, 0x50, 0x4e, 0x47])), null);
+    assert.equal(sniffMimeType(Buffer.alloc(0)), null);
+  });
+});
+
+describe('isAnimatedGif', () => {
+  const frame = Buffer.from([0x21, 0xf9, 0x04, 0x00, 0x00, 0x00, 0x00, 0x00, 0x2c]);
+  const header = Buffer.from('GIF89a', 'latin1');
+  
+  it('needs more than one frame', () => {
+    assert.equal(isAnimatedGif(Buffer.concat([header, frame])), false);
+    assert.equal(isAnimatedGif(Buffer.concat([header, frame, frame])), true);
+  });
+  
+  it('does not read past the end of the buffer', () => {
+    assert.equal(isAnimatedGif(Buffer.from([0x21, 0xf9])), false);
+  });
+});
+
+describe('readVideoDuration', () => {
+  it('reads version 0 and version 1 movie headers', () => {
+    assert.equal(readVideoDuration(Buffer.concat([FTYP, box('moov', mvhd(0, 1000, 12500))])), 12.5);
+    assert.equal(readVideoDuration(Buffer.concat([FTYP, box('moov', mvhd(1, 600, 3000))])), 5);
+  });
+  
+  it('follows 64-bit box sizes', () => {
+    const mdat = largeBox('mdat', Buffer.alloc(64));
+    assert.equal(readVideoDuration(Buffer.concat([FTYP, mdat, largeBox('moov', box('free'), mvhd(0, 30, 90))])), 3);
+  });
+  
+  it('reads a last box that extends to the end of the file', () => {
+    const moov = box('moov', mvhd(0, 10, 20));
+    moov.writeUInt32BE(0);
+    assert.equal(readVideoDuration(Buffer.concat([FTYP, moov])), 2);
+  });
+  
+  it('returns null without a movie header or timescale', () => {
+    assert.equal(readVideoDuration(FTYP), null);
+    assert.equal(readVideoDuration(Buffer.concat([FTYP, box('moov', box('trak'))])), null);
+    assert.equal(readVideoDuration(Buffer.concat([FTYP, box('moov', mvhd(0, 0, 100))])), null);
+  });
+  
+  it('returns null for truncated and invalid boxes', () => {
+    const moov = Buffer.concat([FTYP, box('moov', mvhd(1, 600, 3000))]);
+    assert.equal(readVideoDuration(moov.subarray(0, moov.length - 12)), null);
+    assert.equal(readVideoDuration(Buffer.concat([FTYP, box('moov', box('mvhd', Buffer.alloc(4)))])), null);
+    
+    const tooSmall = box('moov', mvhd(0, 10, 20));
+    tooSmall.writeUInt32BE(4);
+    assert.equal(readVideoDuration(Buffer.concat([FTYP, tooSmall])), null);
+    
+    const cutLargeSize = largeBox('moov', mvhd(0, 10, 20)).subarray(0, 12);
+    assert.equal(readVideoDuration(Buffer.concat([FTYP, cutLargeSize])), null);
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, readFile, rm, stat, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { ResponseCache } from '../src/response-cache.js';
+
+// File writes are queued in the background
+const settle = () => new Promise(resolve => setTimeout(resolve, 50));
+
+async function readEntries(filePath: string): Promise<Array<{ resource: string; value: unknown }>> {
+  const contents = await readFile(filePath, 'utf8');
+  return contents.split('\n').filter(Boolean).map(line => JSON.parse(line));
+}
+
+describe('ResponseCache', () => {
+  it('serves fresh entries and honors the cache modes', async () => {
+    const cache = new ResponseCache({ maxEntries: 10, filePath: undefined });
+    let fetches = 0;
+    const fetch = async () => ++fetches;
+    
+    assert.equal(await cache.getOrFetch('a', 'tweets', [1], 'use', fetch), 1);
+    assert.equal(await cache.getOrFetch('a', 'tweets', [1], 'use', fetch), 1);
+    assert.equal(await cache.getOrFetch('a', 'tweets', [1], 'refresh', fetch), 2);
+    assert.equal(await cache.getOrFetch('a', 'tweets', [1], 'bypass', fetch), 3);
+    assert.equal(await cache.getOrFetch('a', 'tweets', [1], 'use', fetch), 2);
+  });
+  
+  it('keeps accounts apart and clears by account or resource', async () => {
+    const cache = new ResponseCache({ maxEntries: 10, filePath: undefined });
+    await cache.getOrFetch('a', 'tweets', [1], 'use', async () => 'a');
+    await cache.getOrFetch('b', 'tweets', [1], 'use', async () => 'b');
+    await cache.getOrFetch('a', 'likes', [1], 'use', async () => 'a likes');
+    
+    assert.equal(await cache.getOrFetch('b', 'tweets', [1], 'use', async () => 'refetched'), 'b');
+    assert.equal(cache.clear({ account: 'a', resource: 'tweets' }), 1);
+    assert.equal(cache.clear({ account: 'a' }), 1);
+    assert.equal(cache.size, 1);
+  });
+  
+  it('evicts the least recently used entry', async () => {
+    const cache = new ResponseCache({ maxEntries: 2, filePath: undefined });
+    await cache.getOrFetch('a', 'tweets', [1], 'use', async () => 1);
+    await cache.getOrFetch('a', 'tweets', [2], 'use', async () => 2);
+    await cache.getOrFetch('a', 'tweets', [1], 'use', async () => 0);
+    await cache.getOrFetch('a', 'tweets', [3], 'use', async () => 3);
+    
+    assert.equal(await cache.getOrFetch('a', 'tweets', [1], 'use', async () => 'refetched'), 1);
+    assert.equal(await cache.getOrFetch('a', 'tweets', [2], 'use', async () => 'refetched'), 'refetched');
+  });
+  
+  describe('cache file', () => {
+    let dir: string;
+    let filePath: string;
+    
+    beforeEach(async () => {
+      dir = await mkdtemp(path.join(tmpdir(), 'x-cache-'));
+      filePath = path.join(dir, 'cache.jsonl');
+    });
+    
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+    
+    it('only writes public resources, with owner-only permissions', async () => {
+      const cache = new ResponseCache({ maxEntries: 10, filePath });
+      for (const resource of ['userId', 'profile', 'search', 'me', 'timeline', 'tweets', 'lists', 'dms', 'bookmarks'] as const) {
+        await cache.getOrFetch('a', resource, [], 'use', async () => resource);
+      }
+      await settle();
+      
+      assert.deepEqual((await readEntries(filePath)).map(entry => entry.resource), ['userId', 'profile', 'search']);
+      assert.equal((await stat(filePath)).mode & 0o777, 0o600);
+      assert.equal(cache.size, 9);
+    });
+    
+    it('reloads persisted entries and drops private ones left in an old file', async () => {
+      const expiresAt = Date.now() + 60 * 1000;
+      const lines = [
+        { key: 'a:profile:[]', account: 'a', resource: 'profile', value: 'public', expiresAt },
+        { key: 'a:dms:[]', account: 'a', resource: 'dms', value: 'secret', expiresAt },
+        { key: 'a:search:[]', account: 'a', resource: 'search', value: 'expired', expiresAt: Date.now() - 1 }
+      ];
+      await writeFile(filePath, lines.map(line => `${JSON.stringify(line)}\n`).join(''));
+      
+      const cache = new ResponseCache({ maxEntries: 10, filePath });
+      
+      assert.equal(cache.size, 1);
+      assert.equal(await cache.getOrFetch('a', 'profile', [], 'use', async () => 'refetched'), 'public');
+      assert.deepEqual((await readEntries(filePath)).map(entry => entry.value), ['public']);
+    });
+  });
+});
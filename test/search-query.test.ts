@@ -0,0 +1,95 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { QUERY_LENGTH_LIMITS, buildSearchQuery, validateSearchQuery, validateSearchWindow } from '../src/search-query.js';
+
+describe('validateSearchQuery', () => {
+  it('applies the query length limit of each tier', () => {
+    for (const [tier, limit] of Object.entries(QUERY_LENGTH_LIMITS)) {
+      const options = { tier: tier as keyof typeof QUERY_LENGTH_LIMITS };
+      assert.doesNotThrow(() => validateSearchQuery('a'.repeat(limit), options));
+      assert.throws(() => validateSearchQuery('a'.repeat(limit + 1), options), new RegExp(`${limit + 1}/${limit} characters on the ${tier} tier`));
+    }
+  });
+  
+  it('gates advanced operators and full-archive search by tier', () => {
+    assert.throws(() => validateSearchQuery('coffee place:seattle', { tier: 'basic' }), /place: operator needs Pro/);
+    assert.throws(() => validateSearchQuery('coffee -has:geo', { tier: 'basic' }), /has:geo operator needs Pro/);
+    assert.throws(() => validateSearchQuery('coffee', { tier: 'basic', fullArchive: true }), /Full-archive search needs Pro/);
+    
+    assert.doesNotThrow(() => validateSearchQuery('coffee place:seattle', { tier: 'pro' }));
+    assert.doesNotThrow(() => validateSearchQuery('coffee', { tier: 'enterprise', fullArchive: true }));
+  });
+  
+  it('requires balanced quotes and parentheses', () => {
+    assert.throws(() => validateSearchQuery('"open quote', { tier: 'basic' }), /unclosed quote/);
+    assert.throws(() => validateSearchQuery('(cats OR dogs', { tier: 'basic' }), /unbalanced parentheses/);
+    assert.throws(() => validateSearchQuery('cats) OR (dogs', { tier: 'basic' }), /unbalanced parentheses/);
+    
+    // Parentheses inside a quoted phrase are text, not grouping
+    assert.doesNotThrow(() => validateSearchQuery('"smile :)" (cats OR dogs)', { tier: 'basic' }));
+  });
+  
+  it('requires a term that is not only a filter or negation', () => {
+    for (const query of ['is:retweet', 'has:media lang:en', '-cats', '-is:reply OR -has:links']) {
+      assert.throws(() => validateSearchQuery(query, { tier: 'basic' }), /at least one keyword/, query);
+    }
+    for (const query of ['cats -is:retweet', 'from:nasa', '#ai has:media', '"exact phrase" lang:en']) {
+      assert.doesNotThrow(() => validateSearchQuery(query, { tier: 'basic' }), query);
+    }
+  });
+  
+  it('rejects empty queries', () => {
+    assert.throws(() => validateSearchQuery('   ', { tier: 'basic' }), /cannot be empty/);
+  });
+});
+
+describe('validateSearchWindow', () => {
+  const hoursAgo = (hours: number) => new Date(Date.now() - hours * 60 * 60 * 1000).toISOString();
+  
+  it('limits recent search to the last 7 days', () => {
+    assert.doesNotThrow(() => validateSearchWindow(hoursAgo(24), hoursAgo(1)));
+    assert.throws(() => validateSearchWindow(hoursAgo(24 * 8), undefined), /last 7 days/);
+    assert.doesNotThrow(() => validateSearchWindow(hoursAgo(24 * 8), undefined, true));
+  });
+  
+  it('checks the order and end of the window', () => {
+    assert.throws(() => validateSearchWindow(hoursAgo(1), hoursAgo(2)), /before end_time/);
+    assert.throws(() => validateSearchWindow(undefined, new Date().toISOString()), /10 seconds in the past/);
+    assert.throws(() => validateSearchWindow('2000-01-01T00:00:00Z', undefined, true), /cannot be before/);
+  });
+});
+
+describe('buildSearchQuery', () => {
+  it('combines fields and groups alternatives', () => {
+    assert.equal(
+      buildSearchQuery({ keywords: 'mars rover', hashtags: ['#space', 'nasa'], from: ['@NASA', 'esa'], lang: 'EN' }),
+      'mars rover (#space OR #nasa) (from:NASA OR from:esa) lang:en'
+    );
+  });
+  
+  it('turns false filters into exclusions', () => {
+    assert.equal(
+      buildSearchQuery({ keywords: 'launch', has_media: true, is_retweet: false, is_reply: false }),
+      'launch has:media -is:reply -is:retweet'
+    );
+  });
+  
+  it('quotes phrases and multi-word exclusions', () => {
+    assert.equal(
+      buildSearchQuery({ exact_phrase: '  hello   world ', exclude: ['spam', 'buy now'], mentions: ['openai'] }),
+      '"hello world" @openai -spam -"buy now"'
+    );
+  });
+  
+  it('wraps OR keywords so they combine with the other fields', () => {
+    assert.equal(buildSearchQuery({ keywords: 'cats OR dogs', to: ['nasa'] }), '(cats OR dogs) to:nasa');
+  });
+  
+  it('rejects invalid values', () => {
+    assert.throws(() => buildSearchQuery({}), /at least one search field/);
+    assert.throws(() => buildSearchQuery({ from: ['not a user'] }), /Invalid username/);
+    assert.throws(() => buildSearchQuery({ hashtags: ['#no-dashes'] }), /Invalid hashtag/);
+    assert.throws(() => buildSearchQuery({ exact_phrase: 'say "hi"' }), /double quotes/);
+    assert.throws(() => buildSearchQuery({ keywords: 'x', lang: 'english' }), /Invalid language code/);
+  });
+});
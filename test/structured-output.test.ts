@@ -0,0 +1,23 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { listOutputSchema, toListOutput, toolResult } from '../src/structured-output.js';
+
+describe('toListOutput', () => {
+  it('keeps the list fields of the output schema', () => {
+    const output = toListOutput({ id: '1', name: 'Space', owner_id: '42', member_count: 3, private: false });
+    
+    assert.equal(listOutputSchema.safeParse(output).success, true);
+    assert.deepEqual(JSON.parse(JSON.stringify(output)), { id: '1', name: 'Space', member_count: 3, private: false });
+  });
+});
+
+describe('toolResult', () => {
+  const data = { id: '1' };
+  
+  it('returns the content for the requested format with the structured data', () => {
+    assert.deepEqual(toolResult('markdown', '**1**', data).content, [{ type: 'text', text: '**1**' }]);
+    assert.deepEqual(toolResult('json', '**1**', data).content, [{ type: 'text', text: JSON.stringify(data, null, 2) }]);
+    assert.equal(toolResult('both', '**1**', data).content.length, 2);
+    assert.equal(toolResult('markdown', '**1**', data).structuredContent, data);
+  });
+});
@@ -0,0 +1,163 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { randomBytes } from 'crypto';
+import { EncryptedFileTokenStore, FileTokenStore, MemoryTokenStore } from '../src/token-store.js';
+
+const TOKENS = { accessToken: 'access-token', refreshToken: 'refresh-token', expiresAt: 1767225600000, scopes: ['tweet.read', 'users.read'] };
+
+describe('MemoryTokenStore', () => {
+  it('round-trips tokens per account', async () => {
+    const store = new MemoryTokenStore();
+    await store.save('default', TOKENS);
+    await store.save('support', { accessToken: 'other' });
+    
+    assert.deepEqual(await store.load('default'), TOKENS);
+    assert.deepEqual(await store.listAccounts(), ['default', 'support']);
+    
+    await store.clear('support');
+    assert.equal(await store.load('support'), null);
+  });
+  
+  it('returns copies, so callers cannot change the stored tokens', async () => {
+    const store = new MemoryTokenStore();
+    await store.save('default', TOKENS);
+    (await store.load('default'))!.accessToken = 'changed';
+    
+    assert.equal((await store.load('default'))!.accessToken, 'access-token');
+  });
+});
+
+describe('file token stores', () => {
+  let dir: string;
+  let basePath: string;
+  
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'token-store-'));
+    basePath = path.join(dir, '.tokens.json');
+  });
+  
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+  
+  describe('FileTokenStore', () => {
+    it('round-trips tokens, with named accounts next to the base file', async () => {
+      const store = new FileTokenStore(basePath);
+      await store.save('default', TOKENS);
+      await store.save('support', { accessToken: 'other' });
+      
+      assert.deepEqual(await store.load('default'), TOKENS);
+      assert.deepEqual(JSON.parse(await fs.readFile(path.join(dir, '.tokens.support.json'), 'utf-8')), { accessToken: 'other' });
+      assert.deepEqual(await store.listAccounts(), ['default', 'support']);
+      assert.equal(await store.load('missing'), null);
+    });
+    
+    it('writes files readable only by the owner', { skip: process.platform === 'win32' }, async () => {
+      await fs.writeFile(basePath, '{}', { mode: 0o644 });
+      await new FileTokenStore(basePath).save('default', TOKENS);
+      
+      const stats = await fs.stat(basePath);
+      assert.equal(stats.mode & 0o777, 0o600);
+      assert.deepEqual((await fs.readdir(dir)).sort(), ['.tokens.json']);
+    });
+    
+    it('refuses to read encrypted tokens', async () => {
+      await new EncryptedFileTokenStore(basePath, { passphrase: 'secret' }).save('default', TOKENS);
+      
+      await assert.rejects(new FileTokenStore(basePath).load('default'), /are encrypted/);
+    });
+  });
+  
+  describe('EncryptedFileTokenStore', () => {
+    it('round-trips tokens in an AES-256-GCM envelope', async () => {
+      const store = new EncryptedFileTokenStore(basePath, { passphrase: 'secret' });
+      await store.save('default', TOKENS);
+      
+      const contents = await fs.readFile(basePath, 'utf-8');
+      const envelope = JSON.parse(contents);
+      assert.equal(envelope.version, 1);
+      assert.equal(envelope.algorithm, 'aes-256-gcm');
+      assert.equal(envelope.kdf, 'scrypt');
+      assert.equal(Buffer.from(envelope.iv, 'base64').length, 12);
+      assert.equal(Buffer.from(envelope.tag, 'base64').length, 16);
+      assert.doesNotMatch(contents, /access-token/);
+      
+      assert.deepEqual(await new EncryptedFileTokenStore(basePath, { passphrase: 'secret' }).load('default'), TOKENS);
+    });
+    
+    it('round-trips tokens with a hex key file', async () => {
+      const keyFile = path.join(dir, 'token.key');
+      await fs.writeFile(keyFile, randomBytes(32).toString('hex'));
+      const store = new EncryptedFileTokenStore(basePath, { keyFile });
+      await store.save('default', TOKENS);
+      
+      assert.equal(JSON.parse(await fs.readFile(basePath, 'utf-8')).kdf, 'keyfile');
+      assert.deepEqual(await store.load('default'), TOKENS);
+    });
+    
+    it('rejects key files that do not hold 32 bytes', async () => {
+      const keyFile = path.join(dir, 'token.key');
+      await fs.writeFile(keyFile, 'too short');
+      
+      assert.throws(() => new EncryptedFileTokenStore(basePath, { keyFile }), /must contain a 32-byte key/);
+    });
+    
+    it('fails to decrypt with the wrong passphrase', async () => {
+      await new EncryptedFileTokenStore(basePath, { passphrase: 'secret' }).save('default', TOKENS);
+      
+      await assert.rejects(new EncryptedFileTokenStore(basePath, { passphrase: 'wrong' }).load('default'), /Cannot decrypt tokens for account "default"/);
+    });
+    
+    it('fails to decrypt a file copied to another account', async () => {
+      const store = new EncryptedFileTokenStore(basePath, { passphrase: 'secret' });
+      await store.save('default', TOKENS);
+      await fs.copyFile(basePath, path.join(dir, '.tokens.support.json'));
+      
+      await assert.rejects(store.load('support'), /Cannot decrypt tokens for account "support"/);
+    });
+    
+    it('refuses to read plain text tokens', async () => {
+      await new FileTokenStore(basePath).save('default', TOKENS);
+      
+      await assert.rejects(new EncryptedFileTokenStore(basePath, { passphrase: 'secret' }).load('default'), /stored in plain text/);
+    });
+  });
+  
+  describe('withLock', () => {
+    it('runs callers one at a time and removes the lock file', async () => {
+      const store = new FileTokenStore(basePath);
+      const events: string[] = [];
+      const run = (name: string) => store.withLock('default', async () => {
+        events.push(`${name} start`);
+        await new Promise(resolve => setTimeout(resolve, 50));
+        events.push(`${name} end`);
+      });
+      
+      await Promise.all([run('first'), run('second')]);
+      
+      assert.deepEqual(events, ['first start', 'first end', 'second start', 'second end']);
+      await assert.rejects(fs.stat(`${basePath}.lock`), { code: 'ENOENT' });
+    });
+    
+    it('releases the lock when the callback throws', async () => {
+      const store = new FileTokenStore(basePath);
+      
+      await assert.rejects(store.withLock('default', async () => {
+        throw new Error('refresh failed');
+      }), /refresh failed/);
+      assert.equal(await store.withLock('default', async () => 'locked again'), 'locked again');
+    });
+    
+    it('breaks a stale lock left by a crashed process', async () => {
+      const lockPath = `${basePath}.lock`;
+      await fs.writeFile(lockPath, '{}');
+      const staleTime = new Date(Date.now() - 5 * 60 * 1000);
+      await fs.utimes(lockPath, staleTime, staleTime);
+      
+      assert.equal(await new FileTokenStore(basePath).withLock('default', async () => 'locked'), 'locked');
+    });
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { ZodTypeAny } from 'zod';
+
+process.env.X_CLIENT_ID = 'test-client-id';
+process.env.X_CLIENT_SECRET = 'test-client-secret';
+process.env.X_TOKEN_STORE = 'memory';
+process.env.X_CACHE_MAX_ENTRIES = '0';
+
+const { XTools } = await import('../src/tools.js');
+
+type SentDm = { target: unknown; text?: string };
+
+// XTools whose client records DMs instead of sending them
+function createTools(sent: SentDm[]) {
+  const tools = new XTools();
+  const client = {
+    account: 'default',
+    sendDm: async (target: unknown, text?: string) => {
+      sent.push({ target, text });
+      return { dm_conversation_id: 'conversation-1', dm_event_id: 'event-1' };
+    }
+  };
+  Object.assign(tools, { getClient: () => client });
+  return tools;
+}
+
+type Result = { structuredContent?: Record<string, unknown>; isError?: boolean };
+
+function sendDm(tools: InstanceType<typeof XTools>, params: Record<string, unknown>, confirm?: (message: string) => Promise<boolean>): Promise<Result> {
+  return tools.sendDm(XTools.schemas.sendDm.parse({ output_format: 'json', ...params }), { confirm });
+}
+
+describe('send_dm', () => {
+  let sent: SentDm[];
+  
+  beforeEach(() => {
+    sent = [];
+  });
+  
+  it('sends once the user confirms through the client', async () => {
+    const prompts: string[] = [];
+    const result = await sendDm(createTools(sent), { username: 'jack', text: 'hello' }, async message => {
+      prompts.push(message);
+      return true;
+    });
+    
+    assert.equal(result.structuredContent?.status, 'sent');
+    assert.deepEqual(sent, [{ target: { username: 'jack' }, text: 'hello' }]);
+    assert.match(prompts[0], /@jack[\s\S]*hello/);
+  });
+  
+  it('sends nothing when the user declines', async () => {
+    const result = await sendDm(createTools(sent), { username: 'jack', text: 'hello' }, async () => false);
+    
+    assert.equal(result.structuredContent?.status, 'cancelled');
+    assert.deepEqual(sent, []);
+  });
+  
+  it('sends a draft once for its confirmation token without elicitation', async () => {
+    const tools = createTools(sent);
+    const draft = await sendDm(tools, { conversationId: '123-456', text: 'hello' });
+    const confirmationToken = draft.structuredContent?.confirmationToken;
+    
+    assert.equal(draft.structuredContent?.status, 'pending_confirmation');
+    assert.deepEqual(sent, []);
+    
+    const result = await sendDm(tools, { confirmationToken });
+    assert.equal(result.structuredContent?.status, 'sent');
+    assert.deepEqual(sent, [{ target: { conversationId: '123-456' }, text: 'hello' }]);
+    
+    const retry = await sendDm(tools, { confirmationToken });
+    assert.equal(retry.isError, true);
+    assert.equal(sent.length, 1);
+  });
+});
+
+describe('XTools.schemas', () => {
+  it('only accepts whole positive limits', () => {
+    const limits = Object.entries(XTools.schemas)
+      .filter(([, schema]) => 'limit' in schema.shape)
+      .map(([name, schema]) => [name, (schema.shape as { limit: ZodTypeAny }).limit] as const);
+    
+    assert.ok(limits.length > 0);
+    for (const [name, limit] of limits) {
+      assert.equal(limit.safeParse(5).success, true, name);
+      assert.equal(limit.safeParse(2.5).success, false, name);
+      assert.equal(limit.safeParse(0).success, false, name);
+    }
+  });
+});
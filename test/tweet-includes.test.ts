@@ -0,0 +1,103 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ApiV2Includes, TweetV2 } from 'twitter-api-v2';
+import { IncludesResolver, formatTweetContext, mergeIncludes } from '../src/tweet-includes.js';
+
+function tweet(fields: Partial<TweetV2> & { id: string }): TweetV2 {
+  return { text: `tweet ${fields.id}`, edit_history_tweet_ids: [fields.id], ...fields };
+}
+
+const INCLUDES: ApiV2Includes = {
+  users: [
+    { id: '10', name: 'Alice', username: 'alice' },
+    { id: '20', name: 'Bob', username: 'bob' }
+  ],
+  tweets: [tweet({ id: '2', author_id: '20', text: 'quoted text' })],
+  media: [
+    { media_key: 'photo', type: 'photo', url: 'https://pbs.twimg.com/photo.jpg', alt_text: 'A chart' },
+    {
+      media_key: 'video',
+      type: 'video',
+      preview_image_url: 'https://pbs.twimg.com/preview.jpg',
+      variants: [
+        { content_type: 'application/x-mpegURL', url: 'https://video.twimg.com/playlist.m3u8' },
+        { content_type: 'video/mp4', bit_rate: 832000, url: 'https://video.twimg.com/480p.mp4' },
+        { content_type: 'video/mp4', bit_rate: 2176000, url: 'https://video.twimg.com/720p.mp4' },
+        { content_type: 'video/mp4', bit_rate: 256000, url: 'https://video.twimg.com/240p.mp4' }
+      ]
+    },
+    { media_key: 'gif-without-variants', type: 'animated_gif', preview_image_url: 'https://pbs.twimg.com/gif.jpg' }
+  ],
+  polls: [{
+    id: 'poll',
+    voting_status: 'closed',
+    options: [
+      { position: 2, label: 'No', votes: 5 },
+      { position: 1, label: 'Yes', votes: 12 },
+      { position: 3, label: 'Maybe', votes: 1 }
+    ]
+  }]
+};
+
+describe('IncludesResolver', () => {
+  const resolver = new IncludesResolver(INCLUDES);
+  
+  it('resolves the author and quoted tweet', () => {
+    const context = resolver.resolve(tweet({ id: '1', author_id: '10', referenced_tweets: [{ type: 'quoted', id: '2' }] }));
+    
+    assert.deepEqual(context.author, { id: '10', username: 'alice', name: 'Alice' });
+    assert.deepEqual(context.quoted_tweet, { id: '2', text: 'quoted text', author: { id: '20', username: 'bob', name: 'Bob' } });
+  });
+  
+  it('links the highest bit rate MP4 of a video, and the preview when there is none', () => {
+    const media = resolver.getMedia(['photo', 'video', 'gif-without-variants', 'missing']);
+    
+    assert.deepEqual(media.map(item => item.url), [
+      'https://pbs.twimg.com/photo.jpg',
+      'https://video.twimg.com/720p.mp4',
+      'https://pbs.twimg.com/gif.jpg'
+    ]);
+    assert.equal(media[0].alt_text, 'A chart');
+  });
+  
+  it('sorts poll options by position', () => {
+    const context = resolver.resolve(tweet({ id: '1', attachments: { poll_ids: ['poll'] } }));
+    
+    assert.deepEqual(context.poll?.options.map(option => option.label), ['Yes', 'No', 'Maybe']);
+    assert.equal(context.poll?.voting_status, 'closed');
+  });
+  
+  it('keeps the ID of deleted referenced tweets, and the user replied to', () => {
+    const context = resolver.resolve(tweet({
+      id: '1',
+      in_reply_to_user_id: '20',
+      referenced_tweets: [{ type: 'replied_to', id: 'deleted-reply' }, { type: 'retweeted', id: 'deleted-retweet' }]
+    }));
+    
+    assert.deepEqual(context.replied_to_tweet, { id: 'deleted-reply', author: { id: '20', username: 'bob', name: 'Bob' } });
+    assert.deepEqual(context.retweeted_tweet, { id: 'deleted-retweet' });
+    assert.deepEqual(formatTweetContext(context), [
+      '**Retweet of:** unknown author (tweet deleted-retweet unavailable)',
+      '**Replying to:** @bob (tweet deleted-reply unavailable)'
+    ]);
+  });
+  
+  it('leaves out everything the includes do not have', () => {
+    assert.deepEqual(new IncludesResolver().resolve(tweet({ id: '1', author_id: '10', attachments: { media_keys: ['photo'] } })), {});
+  });
+});
+
+describe('mergeIncludes', () => {
+  it('appends the includes of a page to the collected ones', () => {
+    const merged = mergeIncludes({ users: INCLUDES.users }, { users: [{ id: '30', name: 'Carol', username: 'carol' }], media: INCLUDES.media });
+    
+    assert.deepEqual(merged.users?.map(user => user.id), ['10', '20', '30']);
+    assert.equal(merged.media?.length, 3);
+    assert.deepEqual(merged.tweets, []);
+    assert.deepEqual(merged.polls, []);
+  });
+  
+  it('accepts pages without includes', () => {
+    assert.deepEqual(mergeIncludes(INCLUDES), INCLUDES);
+  });
+});
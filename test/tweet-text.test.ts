@@ -0,0 +1,116 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MAX_TWEET_LENGTH, countTweetLength, splitIntoThread } from '../src/tweet-text.js';
+
+const NUMBERING_PATTERN = / (\d+)\/(\d+)$/;
+
+function assertNumbered(chunks: string[]): void {
+  chunks.forEach((chunk, index) => {
+    const match = chunk.match(NUMBERING_PATTERN);
+    assert.ok(match, `chunk ${index + 1} is not numbered: ${chunk}`);
+    assert.equal(Number(match[1]), index + 1);
+    assert.equal(Number(match[2]), chunks.length);
+  });
+}
+
+function stripNumbering(chunk: string): string {
+  return chunk.replace(NUMBERING_PATTERN, '');
+}
+
+describe('countTweetLength', () => {
+  it('counts every URL as 23 characters', () => {
+    assert.equal(countTweetLength('https://example.com'), 23);
+    assert.equal(countTweetLength(`see https://example.com/${'a'.repeat(100)}`), 4 + 23);
+    assert.equal(countTweetLength('docs at example.io/start'), 8 + 23);
+  });
+  
+  it('counts emoji and CJK characters as 2', () => {
+    assert.equal(countTweetLength('😀'), 2);
+    assert.equal(countTweetLength('👨‍👩‍👧'), 2);
+    assert.equal(countTweetLength('👍🏽'), 2);
+    assert.equal(countTweetLength('日本語'), 6);
+    assert.equal(countTweetLength('hi 😀'), 5);
+  });
+});
+
+describe('splitIntoThread', () => {
+  it('returns text that fits in one tweet as-is', () => {
+    assert.deepEqual(splitIntoThread('Just one tweet.'), ['Just one tweet.']);
+    assert.deepEqual(splitIntoThread('   '), []);
+  });
+  
+  it('keeps every chunk within the weighted limit', () => {
+    const text = Array.from({ length: 40 }, (_, i) => `Sentence number ${i} talks about something moderately interesting.`).join(' ');
+    const chunks = splitIntoThread(text);
+    
+    assert.ok(chunks.length > 1);
+    for (const chunk of chunks) {
+      assert.ok(countTweetLength(chunk) <= MAX_TWEET_LENGTH, `${countTweetLength(chunk)}: ${chunk}`);
+    }
+    assertNumbered(chunks);
+    assert.equal(chunks.map(stripNumbering).join(' '), text);
+  });
+  
+  it('splits at sentence boundaries', () => {
+    const first = `${'a '.repeat(100).trim()}.`;
+    const second = `${'b '.repeat(100).trim()}.`;
+    assert.deepEqual(splitIntoThread(`${first} ${second}`), [`${first} 1/2`, `${second} 2/2`]);
+  });
+  
+  it('numbers chunks correctly when the count grows from one digit to two', () => {
+    // Two 7-character sentences fit per chunk with a " 1/9" suffix but not with " 10/10",
+    // so the wider suffix forces a repack into one sentence per chunk
+    const text = Array.from({ length: 20 }, () => 'Hi you.').join(' ');
+    const chunks = splitIntoThread(text, { maxLength: 20 });
+    
+    assert.equal(chunks.length, 20);
+    assertNumbered(chunks);
+    for (const chunk of chunks) {
+      assert.ok(countTweetLength(chunk) <= 20, chunk);
+    }
+    assert.equal(chunks[9], 'Hi you. 10/20');
+  });
+  
+  it('keeps single-digit numbering below ten chunks', () => {
+    const text = Array.from({ length: 9 }, () => 'Hello there.').join(' ');
+    const chunks = splitIntoThread(text, { maxLength: 20 });
+    
+    assert.equal(chunks.length, 9);
+    assert.equal(chunks[8], 'Hello there. 9/9');
+  });
+  
+  it('counts URLs as 23 characters when splitting', () => {
+    const url = `https://example.com/${'x'.repeat(300)}`;
+    const text = `Read this ${url} now.`;
+    assert.deepEqual(splitIntoThread(text), [text]);
+    
+    const chunks = splitIntoThread(Array.from({ length: 20 }, () => `Link ${url}.`).join(' '));
+    for (const chunk of chunks) {
+      assert.ok(countTweetLength(chunk) <= MAX_TWEET_LENGTH, chunk);
+    }
+    assertNumbered(chunks);
+  });
+  
+  it('weights emoji and CJK characters when splitting', () => {
+    const text = Array.from({ length: 30 }, () => '今日はいい天気ですね。😀').join(' ');
+    const chunks = splitIntoThread(text);
+    
+    assert.ok(chunks.length > 1);
+    for (const chunk of chunks) {
+      assert.ok(countTweetLength(chunk) <= MAX_TWEET_LENGTH, `${countTweetLength(chunk)}: ${chunk}`);
+    }
+    assertNumbered(chunks);
+  });
+  
+  it('cuts words longer than a chunk', () => {
+    const word = 'a'.repeat(600);
+    const chunks = splitIntoThread(word);
+    
+    assert.equal(chunks.length, 3);
+    for (const chunk of chunks) {
+      assert.ok(countTweetLength(chunk) <= MAX_TWEET_LENGTH, chunk);
+    }
+    assertNumbered(chunks);
+    assert.equal(chunks.map(stripNumbering).join(''), word);
+  });
+});
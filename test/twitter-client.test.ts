@@ -0,0 +1,90 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+
+process.env.X_BEARER_TOKEN = 'test-bearer-token';
+process.env.X_CLIENT_ID = 'test-client-id';
+process.env.X_CLIENT_SECRET = 'test-client-secret';
+process.env.X_TOKEN_STORE = 'memory';
+process.env.X_CACHE_MAX_ENTRIES = '0';
+
+const { TwitterClient } = await import('../src/twitter-client.js');
+
+type Calls = Array<{ client: string; method: string }>;
+
+// Stand-in for a TwitterApi instance that records which client served each call
+function fakeApi(name: string, calls: Calls) {
+  const record = (method: string, result: unknown) => async () => {
+    calls.push({ client: name, method });
+    return result;
+  };
+  const tweetPage = { data: { data: [], meta: {} } };
+  const counts = { data: [{ start: '2026-01-01T00:00:00Z', end: '2026-01-01T01:00:00Z', tweet_count: 3 }], meta: { total_tweet_count: 3 } };
+  
+  return {
+    v2: {
+      search: record('search', tweetPage),
+      searchAll: record('searchAll', tweetPage),
+      tweetCountRecent: record('tweetCountRecent', counts),
+      tweetCountAll: record('tweetCountAll', counts)
+    }
+  };
+}
+
+// A client logged in as a user that also has the app-only bearer token
+function createClient(calls: Calls, { withAppClient = true } = {}) {
+  const client = new TwitterClient('default');
+  Object.assign(client, {
+    appClient: withAppClient ? fakeApi('app', calls) : undefined,
+    authManager: { getAuthenticatedClient: async () => fakeApi('user', calls) }
+  });
+  return client;
+}
+
+describe('TwitterClient app-only endpoints', () => {
+  let calls: Calls;
+  
+  beforeEach(() => {
+    calls = [];
+  });
+  
+  it('counts recent tweets with the bearer token while a user is logged in', async () => {
+    const counts = await createClient(calls).getTweetCounts('nasa', 'hour', {}, undefined, 'bypass');
+    
+    assert.deepEqual(calls, [{ client: 'app', method: 'tweetCountRecent' }]);
+    assert.equal(counts.total, 3);
+  });
+  
+  it('counts the full archive with the bearer token', async () => {
+    await createClient(calls).getTweetCounts('nasa', 'day', { fullArchive: true }, undefined, 'bypass');
+    
+    assert.deepEqual(calls, [{ client: 'app', method: 'tweetCountAll' }]);
+  });
+  
+  it('searches recent tweets with the user token', async () => {
+    await createClient(calls).searchTweets('nasa', 10, undefined, 'bypass');
+    
+    assert.deepEqual(calls, [{ client: 'user', method: 'search' }]);
+  });
+  
+  it('searches the full archive with the bearer token while a user is logged in', async () => {
+    await createClient(calls).searchTweets('nasa', 10, undefined, 'bypass', { fullArchive: true });
+    
+    assert.deepEqual(calls, [{ client: 'app', method: 'searchAll' }]);
+  });
+  
+  it('names X_BEARER_TOKEN when the full archive is searched without it', async () => {
+    await assert.rejects(
+      createClient(calls, { withAppClient: false }).searchTweets('nasa', 10, undefined, 'bypass', { fullArchive: true }),
+      /X_BEARER_TOKEN/
+    );
+    assert.deepEqual(calls, []);
+  });
+  
+  it('names X_BEARER_TOKEN when counts are requested without it', async () => {
+    await assert.rejects(
+      createClient(calls, { withAppClient: false }).getTweetCounts('nasa', 'hour', {}, undefined, 'bypass'),
+      /X_BEARER_TOKEN/
+    );
+    assert.deepEqual(calls, []);
+  });
+});